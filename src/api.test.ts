@@ -4,17 +4,60 @@
  * Tests the WaitroseClient directly.
  * Run with: bun test api.test.ts
  * 
- * Requires environment variables:
+ * Runs offline against the mock server in src/mock-server.ts by default.
+ * To run against the real API instead, set:
+ *   WAITROSE_LIVE=1
  *   WAITROSE_USERNAME - Your Waitrose account email
  *   WAITROSE_PASSWORD - Your Waitrose account password
  */
 
-import { describe, test, expect, beforeAll } from "bun:test";
-import { WaitroseClient } from "../waitrose";
-import type { Session, TrolleyResponse, UnitOfMeasure } from "../waitrose";
+import { describe, test, expect, beforeAll, beforeEach, afterAll } from "bun:test";
+import {
+  WaitroseClient,
+  ApiFailureError,
+  AuthExpiredError,
+  BudgetExceededError,
+  GraphQLRequestError,
+  HttpError,
+  MemoryCache,
+  NetworkError,
+  RequestLimiter,
+  SchemaValidationError,
+  TimeoutError,
+  TrolleyConflictError,
+  WaitroseError,
+  type BudgetStatus,
+  type RetryEvent,
+  type RetryPolicy,
+  type RequestEvent,
+  type ResponseEvent,
+  type SchemaDriftEvent,
+  type SessionOptions,
+  type StoredSession,
+  type WaitroseClientOptions,
+  validateResponse,
+  formatQuantity,
+  parseQuantity,
+  parseShoppingList,
+  rankProducts,
+  resolveQuantity,
+} from "../waitrose";
+import type { SearchProduct, Session, TrolleyResponse, UnitOfMeasure } from "../waitrose";
+import { startMockServer, MOCK_USERNAME, MOCK_PASSWORD, type MockServer } from "./mock-server";
 
-const username = process.env.WAITROSE_USERNAME!;
-const password = process.env.WAITROSE_PASSWORD!;
+const live = process.env.WAITROSE_LIVE === "1";
+const username = live ? process.env.WAITROSE_USERNAME! : MOCK_USERNAME;
+const password = live ? process.env.WAITROSE_PASSWORD! : MOCK_PASSWORD;
+
+let server: MockServer | null = null;
+
+beforeAll(() => {
+  if (!live) server = startMockServer();
+});
+
+afterAll(() => {
+  server?.stop();
+});
 
 // Shared client instance
 let client: WaitroseClient;
@@ -25,7 +68,7 @@ const TEST_PRODUCT_LINE_NUMBER = "088903"; // Waitrose Fairtrade Bananas
 
 describe("Authentication", () => {
   beforeAll(() => {
-    client = new WaitroseClient();
+    client = new WaitroseClient({ transport: server?.transport });
   });
 
   test("login with username/password", async () => {
@@ -183,6 +226,10 @@ describe("Orders", () => {
     expect(Array.isArray(pending)).toBe(true);
     expect(Array.isArray(previous)).toBe(true);
   });
+
+  test.skipIf(live)("getOrder returns null for an unknown order", async () => {
+    expect(await client.getOrder("1999999999")).toBeNull();
+  });
 });
 
 describe("Slots", () => {
@@ -288,5 +335,1204 @@ describe("Session Management", () => {
     expect(newSession.accessToken).toBeDefined();
     expect(client.isAuthenticated()).toBe(true);
   });
+
+  test("exportSession captures tokens, ids and expiry", () => {
+    const exported = client.exportSession();
+    expect(exported?.accessToken).toBeDefined();
+    expect(exported?.refreshToken).toBeDefined();
+    expect(exported?.customerId).toBe(client.getCustomerId()!);
+    expect(exported?.customerOrderId).toBe(client.getOrderId()!);
+    expect(exported?.defaultBranchId).toBeDefined();
+    expect(exported!.expiresAt!).toBeGreaterThan(Date.now());
+  });
+
+  test("fromSession restores a working client without logging in", async () => {
+    const restored = WaitroseClient.fromSession(JSON.parse(JSON.stringify(client.exportSession())), {
+      transport: server?.transport,
+    });
+    expect(restored.isAuthenticated()).toBe(true);
+    expect(restored.exportSession()).toEqual(client.exportSession());
+    expect((await restored.getTrolley()).trolley.orderId).toBe(client.getOrderId()!);
+  });
+
+  test("exportSession is null when logged out", () => {
+    expect(new WaitroseClient().exportSession()).toBeNull();
+  });
+});
+
+
+describe("Session Refresh", () => {
+  function tracedClient(options: { session?: SessionOptions } = {}) {
+    const calls: string[] = [];
+    const traced = new WaitroseClient({
+      ...options,
+      transport: server?.transport,
+      hooks: { beforeRequest: e => { calls.push(e.operation); } },
+    });
+    return { client: traced, calls };
+  }
+
+  test("refreshSession exchanges the refresh token for a new session", async () => {
+    const { client: refreshing } = tracedClient();
+    const first = await refreshing.login(username, password);
+    const refreshed = await refreshing.refreshSession();
+    expect(refreshed.accessToken).not.toBe(first.accessToken);
+    expect(refreshing.exportSession()?.refreshToken).toBe(refreshed.refreshToken);
+    expect((await refreshing.getTrolley()).trolley.orderId).toBe(refreshed.customerOrderId);
+  });
+
+  test("sessions close to expiry are refreshed before the next request", async () => {
+    const changes: StoredSession[] = [];
+    const { client: refreshing, calls } = tracedClient({ session: { onSessionChange: s => { changes.push(s); } } });
+    await refreshing.login(username, password);
+    refreshing.restoreSession({ ...refreshing.exportSession()!, expiresAt: Date.now() + 60_000 });
+
+    await Promise.all([refreshing.getTrolley(), refreshing.getShoppingContext()]);
+    expect(calls).toEqual(["NewSession", "RefreshSession", "GetTrolley", "GetShoppingContext"]);
+    expect(changes).toHaveLength(2);
+    expect(changes[1]!.expiresAt!).toBeGreaterThan(Date.now() + 60_000);
+  });
+
+  test("a rejected refresh token falls back to the configured credentials", async () => {
+    const { client: refreshing, calls } = tracedClient({ session: { credentials: () => ({ username, password }) } });
+    await refreshing.login(username, password);
+    refreshing.restoreSession({ ...refreshing.exportSession()!, refreshToken: "revoked", expiresAt: Date.now() });
+
+    await refreshing.getTrolley();
+    expect(calls).toEqual(["NewSession", "RefreshSession", "NewSession", "GetTrolley"]);
+  });
+
+  test("a session renewed elsewhere is picked up inside the lock instead of refreshing", async () => {
+    const other = new WaitroseClient({ transport: server?.transport });
+    await other.login(username, password);
+
+    const locked: string[] = [];
+    const { client: refreshing, calls } = tracedClient({
+      session: {
+        lock: async refresh => {
+          locked.push("enter");
+          await refresh();
+          locked.push("exit");
+        },
+        load: () => other.exportSession(),
+      },
+    });
+    await refreshing.login(username, password);
+    refreshing.restoreSession({ ...refreshing.exportSession()!, expiresAt: Date.now() + 60_000 });
+
+    await refreshing.getTrolley();
+    expect(locked).toEqual(["enter", "exit"]);
+    expect(calls).toEqual(["NewSession", "GetTrolley"]);
+    expect(refreshing.exportSession()!.accessToken).toBe(other.exportSession()!.accessToken);
+  });
+
+  test("automatic refresh can be disabled", async () => {
+    const { client: refreshing, calls } = tracedClient({ session: { refreshBeforeExpiryMs: false } });
+    await refreshing.login(username, password);
+    refreshing.restoreSession({ ...refreshing.exportSession()!, expiresAt: Date.now() + 60_000 });
+
+    await refreshing.getTrolley();
+    expect(calls).toEqual(["NewSession", "GetTrolley"]);
+  });
+
+  test("reAuthenticate prefers the refresh token", async () => {
+    const { client: refreshing, calls } = tracedClient();
+    await refreshing.login(username, password);
+    await refreshing.reAuthenticate(username, password);
+    expect(calls).toEqual(["NewSession", "RefreshSession"]);
+  });
+
+  test("refreshSession without a refresh token raises AuthExpiredError", async () => {
+    const error = await new WaitroseClient().refreshSession().catch(e => e);
+    expect(error).toBeInstanceOf(AuthExpiredError);
+  });
+});
+
+describe("Custom Transport", () => {
+  test("routes requests through the supplied fetch and base URLs", async () => {
+    const calls: Array<{ url: string; init: RequestInit }> = [];
+    const transportClient = new WaitroseClient({
+      transport: {
+        fetch: async (url, init) => {
+          calls.push({ url, init });
+          return Response.json({ data: { campaigns: [] }, products: [], totalMatches: 0 });
+        },
+        graphqlUrl: "http://localhost:4000/graphql",
+        searchApiUrl: "http://localhost:4000/search-api",
+        productsApiUrl: "http://localhost:4000/products-api",
+        headers: { "X-Test": "1" },
+      },
+    });
+
+    await transportClient.getCampaigns();
+    await transportClient.searchProducts("milk");
+    await transportClient.getProductsByLineNumbers(["088903"]);
+
+    expect(calls.map(c => c.url.split("?")[0])).toEqual([
+      "http://localhost:4000/graphql",
+      "http://localhost:4000/search-api/search/-1",
+      "http://localhost:4000/products-api/088903",
+    ]);
+    for (const call of calls) {
+      expect((call.init.headers as Record<string, string>)["X-Test"]).toBe("1");
+    }
+    expect(calls[2]!.init.method).toBe("GET");
+  });
+});
+
+describe("Typed Errors", () => {
+  function stubClient(status: number, body: unknown): WaitroseClient {
+    return new WaitroseClient({
+      transport: { fetch: async () => Response.json(body, { status }) },
+      retry: false,
+    });
+  }
+
+  test("HTTP 401 raises AuthExpiredError", async () => {
+    const error = await stubClient(401, { message: "expired" }).getCampaigns().catch(e => e);
+    expect(error).toBeInstanceOf(AuthExpiredError);
+    expect(error.status).toBe(401);
+  });
+
+  test("other HTTP failures raise HttpError with status and body", async () => {
+    const error = await stubClient(503, { message: "down" }).getCampaigns().catch(e => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(503);
+    expect(error.body).toContain("down");
+  });
+
+  test("GraphQL errors keep their paths", async () => {
+    const error = await stubClient(200, {
+      data: null,
+      errors: [{ message: "boom", path: ["campaigns", 0, "name"] }],
+    }).getCampaigns().catch(e => e);
+    expect(error).toBeInstanceOf(GraphQLRequestError);
+    expect(error.operation).toBe("GetCampaigns");
+    expect(error.paths).toEqual(["campaigns.0.name"]);
+  });
+
+  test("UNAUTHENTICATED GraphQL errors raise AuthExpiredError", async () => {
+    const error = await stubClient(200, {
+      errors: [{ message: "Token expired", extensions: { code: "UNAUTHENTICATED" } }],
+    }).getCampaigns().catch(e => e);
+    expect(error).toBeInstanceOf(AuthExpiredError);
+  });
+
+  test("failures arrays raise ApiFailureError", async () => {
+    const failures = [{ type: "ORDER_NOT_CANCELLABLE", message: "Too late" }];
+    const error = await stubClient(200, { data: { cancelOrder: { failures } } })
+      .cancelOrder("123").catch(e => e);
+    expect(error).toBeInstanceOf(ApiFailureError);
+    expect(error.operation).toBe("CancelOrder");
+    expect(error.failures).toEqual(failures);
+    expect(error.message).toBe("Cancel failed: Too late");
+  });
+
+  test("trolley failures raise TrolleyConflictError with the response", async () => {
+    const response = {
+      products: [],
+      trolley: { orderId: "1", trolleyItems: [], trolleyTotals: {}, conflicts: [{ lineNumber: "088903" }] },
+      failures: [{ type: "PRODUCT_UNAVAILABLE", message: "Unavailable" }],
+    };
+    const error = await stubClient(200, { data: { updateTrolleyItems: response } })
+      .updateTrolleyItems([{ lineNumber: "088903", quantity: { amount: 1, uom: "C62" } }], "1")
+      .catch(e => e);
+    expect(error).toBeInstanceOf(TrolleyConflictError);
+    expect(error).toBeInstanceOf(ApiFailureError);
+    expect(error.conflicts).toHaveLength(1);
+  });
+});
+
+describe("Retry Policy", () => {
+  // Fails with the given statuses in order, then succeeds
+  function flakyClient(statuses: number[], retry: RetryPolicy | false = {}) {
+    let calls = 0;
+    const client = new WaitroseClient({
+      transport: {
+        fetch: async () => {
+          const status = statuses[calls++];
+          if (status === 0) throw new TypeError("socket hang up");
+          if (status) return new Response("unavailable", { status });
+          return Response.json({ data: { campaigns: [], bookSlot: { failures: null } } });
+        },
+      },
+      retry: retry && { baseDelayMs: 1, ...retry },
+    });
+    return { client, calls: () => calls };
+  }
+
+  test("retries queries on 502/503 and connection resets", async () => {
+    const events: RetryEvent[] = [];
+    const { client, calls } = flakyClient([502, 0], { onRetry: e => events.push(e) });
+
+    expect(await client.getCampaigns()).toEqual([]);
+    expect(calls()).toBe(3);
+    expect(events.map(e => e.attempt)).toEqual([1, 2]);
+    expect(events[0]!.operation).toBe("GetCampaigns");
+    expect(events[1]!.error).toBeInstanceOf(NetworkError);
+  });
+
+  test("gives up after maxAttempts", async () => {
+    const { client, calls } = flakyClient([503, 503, 503], { maxAttempts: 2 });
+    const error = await client.getCampaigns().catch(e => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(calls()).toBe(2);
+  });
+
+  test("does not retry non-transient statuses", async () => {
+    const { client, calls } = flakyClient([400]);
+    await client.getCampaigns().catch(() => {});
+    expect(calls()).toBe(1);
+  });
+
+  test("does not retry mutations unless opted in", async () => {
+    const plain = flakyClient([503]);
+    await plain.client.bookSlot("slot", "DELIVERY").catch(() => {});
+    expect(plain.calls()).toBe(1);
+
+    const optedIn = flakyClient([503], { retryMutations: ["BookSlot"] });
+    await optedIn.client.bookSlot("slot", "DELIVERY");
+    expect(optedIn.calls()).toBe(2);
+  });
+
+  test("retry: false disables retries", async () => {
+    const { client, calls } = flakyClient([503], false);
+    await client.getCampaigns().catch(() => {});
+    expect(calls()).toBe(1);
+  });
+});
+
+describe("Rate Limiting", () => {
+  test("caps requests in flight", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const client = new WaitroseClient({
+      transport: {
+        fetch: async () => {
+          peak = Math.max(peak, ++inFlight);
+          await Bun.sleep(5);
+          inFlight--;
+          return Response.json({ totalMatches: 0 });
+        },
+      },
+      rateLimit: { maxConcurrent: 2 },
+    });
+
+    await Promise.all(["a", "b", "c", "d", "e"].map(term => client.searchProducts(term)));
+    expect(peak).toBe(2);
+  });
+
+  test("spaces requests beyond the burst at the sustained rate", async () => {
+    const limiter = new RequestLimiter({ requestsPerSecond: 50, burst: 2 });
+    const started = Date.now();
+    const releases = await Promise.all([1, 2, 3, 4].map(() => limiter.acquire()));
+    releases.forEach(release => release());
+
+    // Two requests go immediately, the other two wait ~20ms each
+    expect(Date.now() - started).toBeGreaterThanOrEqual(35);
+  });
+
+  test("queued requests honour abort signals", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 1 });
+    const release = await limiter.acquire();
+
+    const controller = new AbortController();
+    const queued = limiter.acquire(controller.signal);
+    expect(limiter.pending).toBe(1);
+
+    controller.abort(new Error("gave up"));
+    await expect(queued).rejects.toThrow("gave up");
+    expect(limiter.pending).toBe(0);
+    release();
+  });
+
+  test("rejects a rate that isn't positive", () => {
+    expect(() => new RequestLimiter({ requestsPerSecond: 0 })).toThrow(RangeError);
+    expect(() => new RequestLimiter({ requestsPerSecond: -1 })).toThrow("requestsPerSecond must be greater than 0");
+  });
+
+  test("rejects a concurrency limit below 1", () => {
+    expect(() => new RequestLimiter({ maxConcurrent: 0 })).toThrow(RangeError);
+    expect(() => new RequestLimiter({ maxConcurrent: -2 })).toThrow("maxConcurrent must be at least 1, got -2");
+    expect(() => new RequestLimiter({ maxConcurrent: NaN })).toThrow("maxConcurrent must be at least 1, got NaN");
+  });
+});
+
+describe("Cancellation & Timeouts", () => {
+  // A transport that never responds until the request is aborted
+  function hangingClient(options: { timeoutMs?: number } = {}): WaitroseClient {
+    return new WaitroseClient({
+      ...options,
+      transport: {
+        fetch: (_url, init) => new Promise((_, reject) => {
+          if (init.signal?.aborted) reject(init.signal.reason);
+          init.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+        }),
+      },
+    });
+  }
+
+  test("per-call timeoutMs raises TimeoutError", async () => {
+    const error = await hangingClient().getTrolley("123", { timeoutMs: 20 }).catch(e => e);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.operation).toBe("GetTrolley");
+    expect(error.timeoutMs).toBe(20);
+  });
+
+  test("client-wide timeoutMs applies to every call", async () => {
+    const error = await hangingClient({ timeoutMs: 20 }).searchProducts("milk").catch(e => e);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.operation).toBe("search");
+  });
+
+  test("abort signal cancels the call with its reason", async () => {
+    const controller = new AbortController();
+    const pending = hangingClient().getSlotDays("DELIVERY", "2024-01-01", undefined, undefined, {
+      signal: controller.signal,
+    });
+    controller.abort(new Error("user cancelled"));
+    await expect(pending).rejects.toThrow("user cancelled");
+  });
+
+  test("aborted calls are not retried", async () => {
+    let calls = 0;
+    const controller = new AbortController();
+    const client = new WaitroseClient({
+      transport: {
+        fetch: async () => {
+          calls++;
+          controller.abort();
+          return new Response("unavailable", { status: 503 });
+        },
+      },
+      retry: { baseDelayMs: 1 },
+    });
+
+    await client.getCampaigns({ signal: controller.signal }).catch(() => {});
+    expect(calls).toBe(1);
+  });
+});
+
+describe("Caching", () => {
+  function countingClient() {
+    const calls: string[] = [];
+    const client = new WaitroseClient({
+      transport: server?.transport,
+      cache: { store: new MemoryCache() },
+      hooks: { beforeRequest: e => { calls.push(e.operation); } },
+    });
+    return { client, calls };
+  }
+
+  test("repeated catalogue lookups are served from the cache", async () => {
+    const { client, calls } = countingClient();
+    const first = await client.getProductsByLineNumbers(["088903", "064532"]);
+    expect(await client.getProductsByLineNumbers(["088903", "064532"])).toEqual(first);
+    await client.getCampaigns();
+    await client.getCampaigns();
+    await client.browseProducts("groceries/bakery/bread", { size: 2 });
+    await client.browseProducts("groceries/bakery/bread", { size: 2 });
+    expect(calls).toEqual(["products", "GetCampaigns", "browse"]);
+  });
+
+  test("keys include the branch and request parameters", async () => {
+    const { client, calls } = countingClient();
+    await client.browseProducts("groceries/bakery/bread", { size: 2 });
+    await client.browseProducts("groceries/bakery/bread", { size: 2, branchId: "123" });
+    await client.browseProducts("groceries/bakery/bread", { size: 3 });
+    expect(calls).toEqual(["browse", "browse", "browse"]);
+  });
+
+  test("bypassCache refetches and invalidateCache drops entries", async () => {
+    const { client, calls } = countingClient();
+    await client.getCampaigns();
+    await client.getCampaigns({ bypassCache: true });
+    await client.getCampaigns();
+    await client.invalidateCache("GetCampaigns");
+    await client.getCampaigns();
+    expect(calls).toEqual(["GetCampaigns", "GetCampaigns", "GetCampaigns"]);
+  });
+
+  test("entries expire after their TTL", async () => {
+    let calls = 0;
+    const client = new WaitroseClient({
+      transport: server?.transport,
+      cache: { ttlMs: { GetCampaigns: 1 } },
+      hooks: { beforeRequest: () => { calls++; } },
+    });
+    await client.getCampaigns();
+    await Bun.sleep(5);
+    await client.getCampaigns();
+    expect(calls).toBe(2);
+  });
+
+  test("trolley and search requests are never cached", async () => {
+    const { client, calls } = countingClient();
+    await client.login(username, password);
+    await client.getTrolley();
+    await client.getTrolley();
+    await client.searchProducts("milk", { size: 1 });
+    await client.searchProducts("milk", { size: 1 });
+    expect(calls).toEqual(["NewSession", "GetTrolley", "GetTrolley", "search", "search"]);
+  });
+});
+
+describe("Request Hooks", () => {
+  test("hooks see operation, variables, status and duration", async () => {
+    const before: RequestEvent[] = [];
+    const after: ResponseEvent[] = [];
+    const client = new WaitroseClient({
+      transport: server?.transport,
+      hooks: { beforeRequest: e => { before.push(e); }, afterResponse: e => { after.push(e); } },
+    });
+
+    await client.login(username, password);
+    await client.getTrolley();
+    await client.searchProducts("milk", { size: 1 });
+
+    expect(before.map(e => e.operation)).toEqual(["NewSession", "GetTrolley", "search"]);
+    expect(before[1]!.variables).toEqual({ orderId: client.getOrderId() });
+    expect(before[2]!.variables).toMatchObject({ customerSearchRequest: { queryParams: { searchTerm: "milk" } } });
+    expect(after.map(e => e.status)).toEqual([200, 200, 200]);
+    expect(after.every(e => e.durationMs >= 0 && e.error === undefined)).toBe(true);
+    expect(after[1]!.body).toMatchObject({ data: { getTrolley: { trolley: { orderId: client.getOrderId() } } } });
+  });
+
+  test("beforeRequest can modify headers", async () => {
+    let sent: Record<string, string> = {};
+    const client = new WaitroseClient({
+      transport: {
+        fetch: async (_url, init) => {
+          sent = init.headers as Record<string, string>;
+          return Response.json({ data: { campaigns: [] } });
+        },
+      },
+      hooks: { beforeRequest: e => { e.headers["X-Trace-Id"] = "abc"; } },
+    });
+
+    await client.getCampaigns();
+    expect(sent["X-Trace-Id"]).toBe("abc");
+  });
+
+  test("afterResponse runs for failed and retried attempts", async () => {
+    const after: ResponseEvent[] = [];
+    const client = new WaitroseClient({
+      transport: { fetch: async () => new Response("unavailable", { status: 503 }) },
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+      hooks: { afterResponse: e => { after.push(e); } },
+    });
+
+    await client.getCampaigns().catch(() => {});
+    expect(after.map(e => [e.attempt, e.status, e.body])).toEqual([[1, 503, "unavailable"], [2, 503, "unavailable"]]);
+    expect(after[0]!.error).toBeInstanceOf(HttpError);
+  });
+});
+
+describe("Response Validation", () => {
+  // A GetTrolley response where trolleyItems[0].quantity.amount has become a string
+  const drifted = {
+    data: {
+      getTrolley: {
+        products: [],
+        trolley: {
+          orderId: "123",
+          trolleyItems: [{
+            lineNumber: "088903",
+            trolleyItemId: 1,
+            quantity: { amount: "2", uom: "C62" },
+            totalPrice: { amount: 1.3, currencyCode: "GBP" },
+            canSubstitute: true,
+            noteToShopper: null,
+          }],
+          trolleyTotals: {
+            totalEstimatedCost: { amount: 1.3, currencyCode: "GBP" },
+            itemTotalEstimatedCost: { amount: 1.3, currencyCode: "GBP" },
+            deliveryCharge: null,
+            savingsFromOffers: null,
+            savingsFromMyWaitrose: null,
+          },
+          conflicts: [],
+        },
+        failures: null,
+      },
+    },
+  };
+
+  function driftedClient(validate?: WaitroseClientOptions["validate"]): WaitroseClient {
+    return new WaitroseClient({ validate, transport: { fetch: async () => Response.json(drifted) } });
+  }
+
+  test("responses match their types in strict mode", async () => {
+    const strict = new WaitroseClient({ transport: server?.transport, validate: "strict" });
+    await strict.login(username, password);
+    await strict.getTrolley();
+    const { pending, previous } = await strict.getOrders();
+    const order = pending[0] ?? previous[0];
+    if (order) await strict.getOrder(order.customerOrderId);
+    const [date] = await strict.getSlotDates("DELIVERY");
+    if (date) await strict.getSlotDays("DELIVERY", date.id);
+    await strict.searchProducts("milk", { size: 5 });
+  });
+
+  test("strict mode throws SchemaValidationError with the drifted paths", async () => {
+    const error = await driftedClient("strict").getTrolley("123").catch(e => e);
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.operation).toBe("GetTrolley");
+    expect(error.schema).toBe("TrolleyResponse");
+    expect(error.issues).toEqual([
+      { path: "trolley.trolleyItems[0].quantity.amount", expected: "number", received: "string" },
+    ]);
+  });
+
+  test("lenient mode reports drift and returns the response", async () => {
+    const events: SchemaDriftEvent[] = [];
+    const trolley = await driftedClient({ mode: "lenient", onDrift: e => events.push(e) }).getTrolley("123");
+    expect(trolley.trolley.orderId).toBe("123");
+    expect(events).toHaveLength(1);
+    expect(events[0]!.issues[0]!.path).toBe("trolley.trolleyItems[0].quantity.amount");
+  });
+
+  test("validation is off by default", async () => {
+    const trolley = await driftedClient().getTrolley("123");
+    expect(trolley.trolley.trolleyItems[0]!.quantity.amount).toBe("2" as never);
+  });
+
+  test("validateResponse reports missing fields", () => {
+    expect(validateResponse("SlotDay", { id: "x", branchId: "651", slotType: "DELIVERY", date: "2024-01-01" })).toEqual([
+      { path: "slots", expected: "array", received: "missing" },
+    ]);
+  });
+});
+
+describe("Quantities", () => {
+  const mince = { name: "Mince", weights: { uoms: ["GRM", "KGM"] as UnitOfMeasure[] }, defaultQuantity: { amount: 500, uom: "GRM" } };
+  const potatoes = { name: "Potatoes", weights: { uoms: ["KGM"] as UnitOfMeasure[] }, defaultQuantity: { amount: 1, uom: "KGM" } };
+  const eggs = { name: "Eggs", weights: { uoms: ["C62"] as UnitOfMeasure[] }, defaultQuantity: { amount: 1, uom: "C62" } };
+
+  test("parses counts and weights", () => {
+    expect(parseQuantity("3")).toEqual({ amount: 3, uom: null });
+    expect(parseQuantity("x3")).toEqual({ amount: 3, uom: "C62" });
+    expect(parseQuantity("3x")).toEqual({ amount: 3, uom: "C62" });
+    expect(parseQuantity("500g")).toEqual({ amount: 500, uom: "GRM" });
+    expect(parseQuantity("1.5KG")).toEqual({ amount: 1.5, uom: "KGM" });
+    expect(parseQuantity("pints")).toBeNull();
+    expect(parseQuantity("2l")).toBeNull();
+  });
+
+  test("formats quantities", () => {
+    expect(formatQuantity({ amount: 2, uom: "C62" })).toBe("2x");
+    expect(formatQuantity({ amount: 2, uom: "C62" }, "")).toBe("2");
+    expect(formatQuantity({ amount: 500, uom: "GRM" })).toBe("500g");
+    expect(formatQuantity({ amount: 1.5, uom: "KGM" })).toBe("1.5kg");
+  });
+
+  test("converts weights to a unit the product is sold in", () => {
+    expect(resolveQuantity(parseQuantity("500g"), potatoes)).toEqual({ amount: 0.5, uom: "KGM" });
+    expect(resolveQuantity(parseQuantity("1.1kg"), { ...mince, weights: { uoms: ["GRM"] } })).toEqual({ amount: 1100, uom: "GRM" });
+    expect(resolveQuantity(parseQuantity("1.2kg"), mince)).toEqual({ amount: 1.2, uom: "KGM" });
+    expect(resolveQuantity(parseQuantity("2"), potatoes)).toEqual({ amount: 2, uom: "KGM" });
+  });
+
+  test("defaults to the product's usual quantity", () => {
+    expect(resolveQuantity(null, mince)).toEqual({ amount: 500, uom: "GRM" });
+    expect(resolveQuantity(null, {})).toEqual({ amount: 1, uom: "C62" });
+  });
+
+  test("rejects quantities the product can't be bought in", () => {
+    expect(() => resolveQuantity(parseQuantity("2"), mince)).toThrow("Mince is sold by weight; give a weight such as 500g");
+    expect(() => resolveQuantity(parseQuantity("500g"), eggs)).toThrow("Eggs is sold by the item, not by weight");
+    expect(() => resolveQuantity(parseQuantity("1.5"), eggs)).toThrow("Quantity must be a whole number for items sold each, got 1.5");
+    expect(() => resolveQuantity(parseQuantity("0"), eggs)).toThrow("Quantity must be more than 0");
+  });
+});
+
+describe("Shopping List Parsing", () => {
+  test("csv with a header, quoted fields and aliases", () => {
+    const csv = [
+      "Line Number,Name,Qty,Unit,Notes,Substitute",
+      "088903,,3,,,no",
+      ',"semi skimmed milk, 4 pints",1,each,"Longest date, please",yes',
+      "",
+      "834209,,500,g,,",
+      ",,2,,,",
+      "064532,,two,,,",
+    ].join("\r\n");
+
+    expect(parseShoppingList(csv, "csv")).toEqual({
+      items: [
+        { row: 2, lineNumber: "088903", quantity: 3, canSubstitute: false },
+        { row: 3, name: "semi skimmed milk, 4 pints", quantity: 1, uom: "C62", noteToShopper: "Longest date, please", canSubstitute: true },
+        { row: 5, lineNumber: "834209", quantity: 500, uom: "GRM" },
+        { row: 6, quantity: 2 },
+      ],
+      errors: [{ row: 7, item: "064532", message: 'Invalid quantity "two"' }],
+    });
+  });
+
+  test("csv without a header uses item, quantity, unit, note, substitute", () => {
+    expect(parseShoppingList("bananas,2\n088903\n", "csv").items).toEqual([
+      { row: 1, name: "bananas", quantity: 2 },
+      { row: 2, lineNumber: "088903" },
+    ]);
+  });
+
+  test("json objects and strings", () => {
+    const json = JSON.stringify({ items: [
+      { lineNumber: "088903", quantity: 2, canSubstitute: false, noteToShopper: "Green ones" },
+      "3 free range eggs",
+      { name: "mince", quantity: 0.5, uom: "kg" },
+      42,
+    ] });
+    expect(parseShoppingList(json, "json")).toEqual({
+      items: [
+        { row: 1, lineNumber: "088903", quantity: 2, canSubstitute: false, noteToShopper: "Green ones" },
+        { row: 2, name: "free range eggs", quantity: 3 },
+        { row: 3, name: "mince", quantity: 0.5, uom: "KGM" },
+      ],
+      errors: [{ row: 4, message: "Expected an object or string, got 42" }],
+    });
+  });
+
+  test("malformed json is a WaitroseError", () => {
+    expect(() => parseShoppingList("[{\"name\": ", "json")).toThrow(WaitroseError);
+    expect(() => parseShoppingList("{oops}", "json")).toThrow("Shopping list is not valid JSON");
+  });
+
+  test("text lists with quantities before or after the item", () => {
+    const text = "# weekly shop\n2 semi skimmed milk\n088903 3\nbananas x4\n\n500g mince\n1.5kg potatoes\nsourdough";
+    expect(parseShoppingList(text, "text").items).toEqual([
+      { row: 2, name: "semi skimmed milk", quantity: 2 },
+      { row: 3, lineNumber: "088903", quantity: 3 },
+      { row: 4, name: "bananas", quantity: 4 },
+      { row: 6, name: "mince", quantity: 500, uom: "GRM" },
+      { row: 7, name: "potatoes", quantity: 1.5, uom: "KGM" },
+      { row: 8, name: "sourdough" },
+    ]);
+  });
+});
+
+describe.skipIf(live)("Shopping List Import", () => {
+  let importClient: WaitroseClient;
+
+  beforeAll(async () => {
+    server!.reset();
+    importClient = new WaitroseClient({ transport: server!.transport });
+    await importClient.login(username, password);
+    await importClient.emptyTrolley();
+  });
+
+  test("dryRun resolves names without changing the trolley", async () => {
+    const result = await importClient.importShoppingList([{ row: 1, name: "semi skimmed milk 4 pints", quantity: 2 }], { dryRun: true });
+    expect(result.added).toEqual([
+      { row: 1, name: "semi skimmed milk 4 pints", lineNumber: "052814", quantity: 2, uom: "C62", productName: "Waitrose British Semi Skimmed Milk 4 Pints" },
+    ]);
+    expect(result.trolley).toBeNull();
+    expect((await importClient.getTrolley()).trolley.trolleyItems).toEqual([]);
+  });
+
+  test("sets items in one batch and combines repeated products", async () => {
+    const calls: string[] = [];
+    const counting = new WaitroseClient({ transport: server!.transport, hooks: { beforeRequest: e => { calls.push(e.operation); } } });
+    counting.restoreSession(importClient.exportSession()!);
+
+    const { items } = parseShoppingList("088903 2\nbananas x1\n064532 1", "text");
+    const result = await counting.importShoppingList([
+      ...items,
+      { row: 4, lineNumber: "834209", quantity: 500, uom: "GRM", noteToShopper: "Lean please", canSubstitute: false },
+    ]);
+
+    expect(calls).toEqual(["search", "UpdateTrolleyItems"]);
+    expect(result.failures).toEqual([]);
+    expect(result.added.map(a => [a.row, a.lineNumber, a.productName])).toEqual([
+      [1, "088903", "Waitrose Fairtrade Bananas"],
+      [2, "088903", "Waitrose Fairtrade Bananas"],
+      [3, "064532", "Cathedral City Mature Cheddar"],
+      [4, "834209", "Waitrose Beef Steak Mince from the Counter"],
+    ]);
+
+    const lines = result.trolley!.trolley.trolleyItems;
+    expect(lines.find(l => l.lineNumber === "088903")!.quantity.amount).toBe(3);
+    expect(lines.find(l => l.lineNumber === "834209")).toMatchObject({
+      quantity: { amount: 500, uom: "GRM" },
+      noteToShopper: "Lean please",
+      canSubstitute: false,
+    });
+  });
+
+  test("combines g and kg rows for a product and reports rows in another unit", async () => {
+    const result = await importClient.importShoppingList([
+      { row: 1, lineNumber: "834209", quantity: 500, uom: "GRM" },
+      { row: 2, lineNumber: "834209", quantity: 1, uom: "KGM" },
+      { row: 3, lineNumber: "834209", quantity: 2 },
+    ]);
+
+    expect(result.added.map(a => a.row)).toEqual([1, 2]);
+    expect(result.unresolved).toEqual([{ row: 3, item: "834209", message: "Already listed by weight on an earlier row" }]);
+    expect(result.trolley!.trolley.trolleyItems.find(l => l.lineNumber === "834209")!.quantity).toEqual({ amount: 1500, uom: "GRM" });
+  });
+
+  test("reports invalid rows, unresolved names and rejected products per row", async () => {
+    const result = await importClient.importShoppingList([
+      { row: 1, lineNumber: "015480", quantity: 1 },
+      { row: 2, name: "dragon fruit" },
+      { row: 3, lineNumber: "999999", quantity: 1 },
+      { row: 4, lineNumber: "075093", quantity: 1.5 },
+      { row: 5 },
+    ]);
+
+    expect(result.added.map(a => a.lineNumber)).toEqual(["015480"]);
+    expect(result.unresolved).toEqual([{ row: 2, item: "dragon fruit", message: "No matching product" }]);
+    expect(result.failures).toEqual([
+      { row: 4, item: "075093", message: "Quantity must be a whole number for items sold each, got 1.5" },
+      { row: 5, item: undefined, message: "No line number or product name" },
+      { row: 3, item: "999999", message: "Product 999999 not found" },
+    ]);
+    expect(result.trolley!.trolley.trolleyItems.some(l => l.lineNumber === "015480")).toBe(true);
+  });
+});
+
+describe.skipIf(live)("Reorder", () => {
+  let reorderClient: WaitroseClient;
+
+  beforeEach(async () => {
+    server!.reset();
+    reorderClient = new WaitroseClient({ transport: server!.transport });
+    await reorderClient.login(username, password);
+    await reorderClient.emptyTrolley();
+  });
+
+  test("adds an order's lines with their units, notes and substitution preferences", async () => {
+    const result = await reorderClient.reorder("1000000001");
+
+    expect(result.skipped).toEqual([]);
+    expect(result.added).toEqual([
+      { lineNumber: "088903", quantity: { amount: 2, uom: "C62" }, canSubstitute: true },
+      { lineNumber: "052814", quantity: { amount: 1, uom: "C62" }, canSubstitute: true, noteToShopper: "Longest date please" },
+      { lineNumber: "075093", quantity: { amount: 1, uom: "C62" }, canSubstitute: true },
+      { lineNumber: "064532", quantity: { amount: 2, uom: "C62" }, canSubstitute: false },
+      { lineNumber: "834209", quantity: { amount: 500, uom: "GRM" }, canSubstitute: true },
+    ]);
+    expect(result.trolley.trolley.trolleyItems.find(l => l.lineNumber === "064532")?.canSubstitute).toBe(false);
+  });
+
+  test("merge adds to quantities already in the trolley; replace sets them and removes other lines", async () => {
+    await reorderClient.updateTrolleyItems([
+      { lineNumber: "088903", quantity: { amount: 1, uom: "C62" } },
+      { lineNumber: "052812", quantity: { amount: 1, uom: "C62" } },
+    ]);
+
+    const merged = await reorderClient.reorder("1000000002");
+    expect(merged.added.map(a => [a.lineNumber, a.quantity.amount])).toEqual([["088903", 2], ["015480", 1]]);
+    expect(merged.removed).toEqual([]);
+
+    const replaced = await reorderClient.reorder("1000000002", { mode: "replace" });
+    expect(replaced.added.map(a => [a.lineNumber, a.quantity.amount])).toEqual([["088903", 1], ["015480", 1]]);
+    expect(replaced.removed).toEqual(["052812"]);
+    expect(replaced.trolley.trolley.trolleyItems.map(l => l.lineNumber).sort()).toEqual(["015480", "088903"]);
+  });
+
+  test("merge adds up repeated lines and reports ones in another unit", async () => {
+    const order = server!.state.orders.find(o => o.customerOrderId === "1000000001")!;
+    order.lines.push(
+      { lineNumber: "834209", quantity: { amount: 0.5, uom: "KGM" } },
+      { lineNumber: "088903", quantity: { amount: 0.5, uom: "KGM" } },
+    );
+    server!.state.trolley.push({ trolleyItemId: 99, lineNumber: "064532", quantity: { amount: 0.2, uom: "KGM" }, noteToShopper: null, canSubstitute: true });
+    await reorderClient.updateTrolleyItems([{ lineNumber: "834209", quantity: { amount: 0.25, uom: "KGM" } }]);
+
+    const result = await reorderClient.reorder("1000000001");
+    expect(result.skipped).toEqual([
+      { lineNumber: "088903", reason: "unit-mismatch", message: "Also ordered by the item" },
+      { lineNumber: "064532", reason: "unit-mismatch", message: "In the trolley by weight but ordered by the item" },
+    ]);
+    expect(result.added.filter(a => a.lineNumber === "834209")).toEqual([
+      { lineNumber: "834209", quantity: { amount: 1.25, uom: "KGM" }, canSubstitute: true },
+    ]);
+    expect(result.trolley.trolley.trolleyItems.find(l => l.lineNumber === "064532")!.quantity).toEqual({ amount: 0.2, uom: "KGM" });
+  });
+
+  test("skips discontinued lines and reports the rest it couldn't add", async () => {
+    server!.state.catalogue = server!.state.catalogue.filter(p => p.lineNumber !== "075093");
+
+    const result = await reorderClient.reorder("1000000001");
+    expect(result.skipped).toEqual([{ lineNumber: "075093", reason: "discontinued", message: "No longer sold" }]);
+    expect(result.added).toHaveLength(4);
+    expect(result.trolley.trolley.trolleyItems.some(l => l.lineNumber === "075093")).toBe(false);
+  });
+
+  test("canSubstitute overrides the order's substitution preferences", async () => {
+    const result = await reorderClient.reorder("1000000001", { canSubstitute: false });
+    expect(result.trolley.trolley.trolleyItems.every(l => !l.canSubstitute)).toBe(true);
+  });
+
+  test("throws for an unknown order", async () => {
+    await expect(reorderClient.reorder("1999999999")).rejects.toThrow("Order 1999999999 not found");
+  });
+});
+
+describe.skipIf(live)("Item Preferences", () => {
+  let prefsClient: WaitroseClient;
+
+  beforeAll(async () => {
+    server!.reset();
+    prefsClient = new WaitroseClient({ transport: server!.transport });
+    await prefsClient.login(username, password);
+    await prefsClient.updateTrolleyItems([
+      { lineNumber: "088903", quantity: { amount: 3, uom: "C62" } },
+      { lineNumber: "834209", quantity: { amount: 750, uom: "GRM" } },
+    ]);
+  });
+
+  test("sets and clears a note without changing the quantity", async () => {
+    const noted = await prefsClient.setItemPreferences(["834209"], { noteToShopper: "Lean please" });
+    expect(noted.trolley.trolleyItems.find(i => i.lineNumber === "834209")).toMatchObject({
+      quantity: { amount: 750, uom: "GRM" },
+      noteToShopper: "Lean please",
+    });
+
+    const cleared = await prefsClient.setItemPreferences(["834209"], { noteToShopper: "" });
+    expect(cleared.trolley.trolleyItems.find(i => i.lineNumber === "834209")!.noteToShopper).toBeNull();
+  });
+
+  test("null changes every line", async () => {
+    const result = await prefsClient.setItemPreferences(null, { canSubstitute: false });
+    expect(result.trolley.trolleyItems.map(i => [i.lineNumber, i.quantity.amount, i.canSubstitute])).toEqual([
+      ["088903", 3, false],
+      ["834209", 750, false],
+    ]);
+  });
+
+  test("rejects lines that aren't in the trolley", async () => {
+    await expect(prefsClient.setItemPreferences(["052812"], { canSubstitute: true })).rejects.toThrow("Line 052812 is not in the trolley");
+  });
 });
 
+describe.skipIf(live)("Trolley Conflicts", () => {
+  let conflictClient: WaitroseClient;
+
+  beforeEach(async () => {
+    server!.reset();
+    conflictClient = new WaitroseClient({ transport: server!.transport });
+    await conflictClient.login(username, password);
+    await conflictClient.updateTrolleyItems([
+      { lineNumber: "093721", quantity: { amount: 2, uom: "C62" }, noteToShopper: "For coffee", canSubstitute: false },
+      { lineNumber: "905117", quantity: { amount: 1, uom: "C62" } },
+      { lineNumber: "088903", quantity: { amount: 1, uom: "C62" } },
+    ]);
+  });
+
+  test("conflicts and counts are typed on the trolley", async () => {
+    const { trolley } = await conflictClient.getTrolley();
+    expect(trolley.trolleyTotals.trolleyItemCounts).toEqual({ noConflicts: 1, hardConflicts: 1, softConflicts: 1 });
+
+    const [outOfStock, leadTime] = trolley.conflicts;
+    expect(outOfStock).toMatchObject({ lineNumber: "093721", type: "OUT_OF_STOCK", outOfStock: true, resolutionActions: ["REMOVE", "SWAP"] });
+    expect(leadTime).toMatchObject({ lineNumber: "905117", type: "LEAD_TIME", prohibitedActions: ["SWAP"] });
+    expect(leadTime!.slotOptionDates).toHaveLength(3);
+  });
+
+  test("swapping for an alternative keeps the quantity, note and substitution choice", async () => {
+    const trolley = await conflictClient.getTrolley();
+    const product = trolley.products.find(p => p.lineNumber === "093721")!;
+    const alternatives = await conflictClient.findAlternatives(product);
+    expect(alternatives.map(p => p.lineNumber).slice(0, 3)).toEqual(["052812", "052814", "052816"]);
+    expect(alternatives.some(p => p.lineNumber === "093721")).toBe(false);
+
+    const item = trolley.trolley.trolleyItems.find(i => i.lineNumber === "093721")!;
+    const swapped = await conflictClient.swapTrolleyItem(item, "052816");
+    expect(swapped.trolley.trolleyItems.find(i => i.lineNumber === "093721")).toBeUndefined();
+    expect(swapped.trolley.trolleyItems.find(i => i.lineNumber === "052816")).toMatchObject({
+      quantity: { amount: 2, uom: "C62" },
+      noteToShopper: "For coffee",
+      canSubstitute: false,
+    });
+    expect(swapped.trolley.conflicts.map(c => c.lineNumber)).toEqual(["905117"]);
+  });
+
+  test("booking a slot on an offered date clears a lead time conflict", async () => {
+    const { trolley } = await conflictClient.getTrolley();
+    const date = trolley.conflicts.find(c => c.type === "LEAD_TIME")!.slotOptionDates![0]!.date;
+
+    await conflictClient.bookSlot(`${date}_09`, "DELIVERY");
+    expect((await conflictClient.getTrolley()).trolley.conflicts.map(c => c.type)).toEqual(["OUT_OF_STOCK"]);
+  });
+});
+
+describe.skipIf(live)("Budget", () => {
+  // Weeks starting today (in the UK) always include the pending order delivered in 3 days
+  const weekStartsOn = new Date(`${new Date().toLocaleDateString("en-CA", { timeZone: "Europe/London" })}T00:00:00Z`).getUTCDay();
+  let budgetClient: WaitroseClient;
+  let committed: number;
+
+  beforeEach(async () => {
+    server!.reset();
+    budgetClient = new WaitroseClient({ transport: server!.transport });
+    await budgetClient.login(username, password);
+    await budgetClient.updateTrolleyItems([
+      { lineNumber: "088903", quantity: { amount: 1, uom: "C62" }, noteToShopper: "Ripe please" },
+    ]);
+    const [pending] = await budgetClient.getPendingOrders();
+    committed = pending!.totals.estimated.totalPrice.amount;
+  });
+
+  test("status counts this week's pending orders and the trolley", async () => {
+    const trolley = await budgetClient.getTrolley();
+    const total = trolley.trolley.trolleyTotals.totalEstimatedCost.amount;
+
+    const status = await budgetClient.getBudgetStatus(50, { trolley, weekStartsOn });
+    expect(status.pendingOrders.map(o => o.customerOrderId)).toEqual(["1000000002"]);
+    expect(status).toMatchObject({ weeklyLimit: 50, committed, trolley: total, exceeded: false });
+    expect(status.remaining).toBeCloseTo(50 - committed - total, 2);
+
+    const later = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000);
+    expect((await budgetClient.getBudgetStatus(50, { trolley, weekStartsOn, date: later })).committed).toBe(0);
+  });
+
+  test("status checks the week of the booked slot", async () => {
+    const week = (date: Date) => new Date(date.getTime() - ((date.getUTCDay() - weekStartsOn + 7) % 7) * 86_400_000)
+      .toISOString().slice(0, 10);
+    const inTwoWeeks = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000);
+    await budgetClient.bookSlot(`${inTwoWeeks.toISOString().slice(0, 10)}_09`, "DELIVERY");
+
+    const status = await budgetClient.getBudgetStatus(50, { weekStartsOn });
+    expect(status.weekStart).toBe(week(inTwoWeeks));
+    expect(status.committed).toBe(0);
+  });
+
+  test("weeks follow UK dates, so 00:30 BST on a Monday is in that Monday's week", async () => {
+    // 23:30 UTC on Sunday 14 June 2026
+    server!.state.orders.find(o => o.customerOrderId === "1000000002")!.slot.startDateTime = "2026-06-14T23:30:00Z";
+
+    const monday = await budgetClient.getBudgetStatus(50, { weekStartsOn: 1, date: new Date("2026-06-15T12:00:00Z") });
+    expect(monday).toMatchObject({ weekStart: "2026-06-15", committed });
+    const sunday = await budgetClient.getBudgetStatus(50, { weekStartsOn: 1, date: new Date("2026-06-14T12:00:00Z") });
+    expect(sunday).toMatchObject({ weekStart: "2026-06-08", committed: 0 });
+  });
+
+  test("an order being amended isn't counted twice", async () => {
+    await budgetClient.initiateAmendOrder("1000000002");
+    const status = await budgetClient.getBudgetStatus(50, { weekStartsOn });
+    expect(status.pendingOrders).toEqual([]);
+  });
+
+  test("warn mode keeps the change and reports going over", async () => {
+    const exceeded: BudgetStatus[] = [];
+    const warnClient = new WaitroseClient({
+      transport: server!.transport,
+      budget: { policy: { weeklyLimit: committed + 5 }, weekStartsOn, onExceeded: status => { exceeded.push(status); } },
+    });
+    await warnClient.login(username, password);
+
+    const result = await warnClient.addToTrolley("064532", 2);
+    expect(result.trolley.trolleyItems.map(i => i.lineNumber)).toEqual(["088903", "064532"]);
+    expect(exceeded).toHaveLength(1);
+    expect(exceeded[0]!.exceeded).toBe(true);
+  });
+
+  test("refuse mode undoes a change that adds to the bill", async () => {
+    let weeklyLimit = committed + 5;
+    const refuseClient = new WaitroseClient({
+      transport: server!.transport,
+      budget: { policy: async () => ({ weeklyLimit, mode: "refuse" }), weekStartsOn },
+    });
+    await refuseClient.login(username, password);
+    const before = (await refuseClient.getTrolley()).trolley.trolleyItems;
+
+    const error = await refuseClient.updateTrolleyItems([
+      { lineNumber: "088903", quantity: { amount: 6, uom: "C62" }, noteToShopper: "" },
+      { lineNumber: "064532", quantity: { amount: 2, uom: "C62" } },
+    ]).catch(e => e);
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.status.exceeded).toBe(true);
+    expect(error.response.trolley.trolleyItems).toEqual(before);
+    expect((await refuseClient.getTrolley()).trolley.trolleyItems).toEqual(before);
+
+    // Taking things out is allowed even while over budget
+    weeklyLimit = 1;
+    const emptied = await refuseClient.removeFromTrolley("088903");
+    expect(emptied.trolley.trolleyItems).toEqual([]);
+  });
+
+  test("refuse mode reports a change it couldn't undo", async () => {
+    let updates = 0;
+    const refuseClient = new WaitroseClient({
+      transport: {
+        ...server!.transport,
+        fetch: async (url, init) => {
+          if (String(init?.body).includes("mutation UpdateTrolleyItems") && ++updates === 2) {
+            return new Response("unavailable", { status: 503 });
+          }
+          return fetch(url, init);
+        },
+      },
+      retry: { maxAttempts: 1 },
+      budget: { policy: { weeklyLimit: committed + 5, mode: "refuse" }, weekStartsOn },
+    });
+    await refuseClient.login(username, password);
+
+    const error = await refuseClient.addToTrolley("064532", 2).catch(e => e);
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.undone).toBe(false);
+    expect(error.cause).toBeInstanceOf(HttpError);
+    expect(error.response.trolley.trolleyItems.map((i: { lineNumber: string }) => i.lineNumber)).toEqual(["088903", "064532"]);
+  });
+
+  test("guarded updates fetch pending orders once", async () => {
+    const calls: string[] = [];
+    const guarded = new WaitroseClient({
+      transport: server!.transport,
+      hooks: { beforeRequest: e => { calls.push(e.operation); } },
+      budget: { policy: { weeklyLimit: 1000 }, weekStartsOn },
+    });
+    await guarded.login(username, password);
+
+    await guarded.addToTrolley("064532", 1);
+    await guarded.addToTrolley("064532", 2);
+    await guarded.removeFromTrolley("064532");
+    expect(calls.filter(op => op === "GetPendingOrders")).toHaveLength(1);
+    expect(calls.filter(op => op === "UpdateTrolleyItems")).toHaveLength(3);
+  });
+});
+
+describe("Product Ranking", () => {
+  const product = (lineNumber: string, name: string, size: string): SearchProduct =>
+    ({ id: lineNumber, lineNumber, name, size, displayPrice: "£1.00" });
+  const milk = [
+    product("000001", "Semi Skimmed Milk 4 Pints", "2.272L"),
+    product("000002", "Semi Skimmed Milk", "1.136L"),
+    product("000003", "Whole Milk", "568ml"),
+  ];
+
+  test("keeps search order without other signals", () => {
+    expect(rankProducts("milk", milk).map(c => c.product.lineNumber)).toEqual(["000001", "000002", "000003"]);
+  });
+
+  test("matches sizes across units", () => {
+    const [best] = rankProducts("semi skimmed milk 2 pints", milk);
+    expect(best!.product.lineNumber).toBe("000002");
+    expect(best!.reasons).toEqual(["size matches 2 pints"]);
+  });
+
+  test("favourites and past purchases outrank search order", () => {
+    const ranked = rankProducts("milk", milk, { favourites: ["000003"], purchases: new Map([["000002", 1]]) });
+    expect(ranked.map(c => [c.product.lineNumber, c.reasons])).toEqual([
+      ["000003", ["favourite"]],
+      ["000002", ["bought in 1 order"]],
+      ["000001", []],
+    ]);
+  });
+});
+
+describe.skipIf(live)("Product Resolution", () => {
+  let resolveClient: WaitroseClient;
+
+  beforeAll(async () => {
+    server!.reset();
+    resolveClient = new WaitroseClient({ transport: server!.transport });
+    await resolveClient.login(username, password);
+  });
+
+  test("prefers products from previous orders", async () => {
+    const result = await resolveClient.resolveProduct("semi skimmed milk");
+    expect(result.match?.lineNumber).toBe("052814");
+    expect(result.ambiguous).toBe(false);
+    expect(result.candidates[0]!.reasons).toEqual(["bought in 1 order"]);
+  });
+
+  test("is ambiguous when nothing separates the top candidates", async () => {
+    const result = await resolveClient.resolveProduct("2 pints milk");
+    expect(result.ambiguous).toBe(true);
+    expect(result.candidates.map(c => c.product.lineNumber)).toEqual(["052812", "052816"]);
+
+    const favoured = await resolveClient.resolveProduct("2 pints milk", { favourites: ["052816"] });
+    expect(favoured.ambiguous).toBe(false);
+    expect(favoured.match?.lineNumber).toBe("052816");
+  });
+
+  test("plain names without signals take the search's top result", async () => {
+    const result = await resolveClient.resolveProduct("milk", { purchaseHistory: 0 });
+    const search = await resolveClient.searchProducts("milk", { size: 10 });
+    expect(result.candidates.length).toBeGreaterThan(1);
+    expect(result.ambiguous).toBe(false);
+    expect(result.match?.lineNumber).toBe(search.products[0]!.lineNumber);
+  });
+
+  test("first and cheapest strategies skip the purchase lookup", async () => {
+    const calls: string[] = [];
+    const counting = new WaitroseClient({ transport: server!.transport, hooks: { beforeRequest: e => { calls.push(e.operation); } } });
+    counting.restoreSession(resolveClient.exportSession()!);
+
+    expect((await counting.resolveProduct("waitrose", { strategy: "first" })).match?.lineNumber).toBe("088903");
+    expect((await counting.resolveProduct("waitrose", { strategy: "cheapest" })).match?.lineNumber).toBe("075093");
+    expect(calls).toEqual(["search", "search"]);
+  });
+
+  test("match is null when nothing is found", async () => {
+    expect(await resolveClient.resolveProduct("dragon fruit")).toEqual({ candidates: [], match: null, ambiguous: false });
+  });
+});
+
+describe.skipIf(live)("Mock Server", () => {
+  let mockClient: WaitroseClient;
+
+  beforeAll(async () => {
+    server!.reset();
+    mockClient = new WaitroseClient({ transport: server!.transport, retry: false });
+    await mockClient.login(username, password);
+  });
+
+  test("rejects bad credentials with ApiFailureError", async () => {
+    const error = await new WaitroseClient({ transport: server!.transport })
+      .login(username, "wrong").catch(e => e);
+    expect(error).toBeInstanceOf(ApiFailureError);
+    expect(error.failures[0].type).toBe("INVALID_CREDENTIALS");
+  });
+
+  test("rejects expired sessions with AuthExpiredError", async () => {
+    for (const session of server!.state.sessions.values()) session.expiresAt = 0;
+    const error = await mockClient.getTrolley().catch(e => e);
+    expect(error).toBeInstanceOf(AuthExpiredError);
+    await mockClient.login(username, password);
+  });
+
+  test("prices weighed lines by weight", async () => {
+    const result = await mockClient.addToTrolley("834209", 500, "GRM");
+    const item = result.trolley.trolleyItems.find(i => i.lineNumber === "834209");
+    expect(item?.totalPrice.amount).toBe(4.75);
+  });
+
+  test("reports out-of-stock lines as conflicts", async () => {
+    const result = await mockClient.addToTrolley("093721", 1);
+    expect(result.trolley.conflicts).toHaveLength(1);
+  });
+
+  test("unknown line numbers raise TrolleyConflictError", async () => {
+    const error = await mockClient.addToTrolley("000000", 1).catch(e => e);
+    expect(error).toBeInstanceOf(TrolleyConflictError);
+    expect(error.response.trolley.trolleyItems).toHaveLength(2);
+  });
+
+  test("booked slot shows up as the current slot and delivery charge", async () => {
+    const [date] = await mockClient.getSlotDates("DELIVERY");
+    const [day] = await mockClient.getSlotDays("DELIVERY", date!.id);
+    const slot = day!.slots.find(s => s.status === "AVAILABLE")!;
+
+    await mockClient.bookSlot(slot.id, "DELIVERY");
+    expect((await mockClient.getCurrentSlot())?.startDateTime).toBe(slot.startDateTime);
+
+    const trolley = await mockClient.getTrolley();
+    expect(trolley.trolley.trolleyTotals.deliveryCharge).toEqual(slot.charge);
+  });
+
+  test("cancelled orders move from pending to previous", async () => {
+    const [order] = await mockClient.getPendingOrders();
+    await mockClient.cancelOrder(order!.customerOrderId);
+
+    const { pending, previous } = await mockClient.getOrders();
+    expect(pending.find(o => o.customerOrderId === order!.customerOrderId)).toBeUndefined();
+    expect(previous.find(o => o.customerOrderId === order!.customerOrderId)?.status).toBe("CANCELLED");
+
+    const error = await mockClient.cancelOrder(order!.customerOrderId).catch(e => e);
+    expect(error).toBeInstanceOf(ApiFailureError);
+  });
+});
@@ -2,60 +2,222 @@
  * Authentication helpers for Waitrose CLI
  */
 
-import WaitroseClient from "../waitrose.js";
-import { loadConfig, saveConfig, getCredentialsFromEnv, isTokenExpired, type WaitroseConfig } from "./config.js";
+import WaitroseClient, {
+  AuthExpiredError,
+  RequestLimiter,
+  transportForOrigin,
+  type BudgetPolicy,
+  type BudgetStatus,
+  type RequestHooks,
+  type StoredSession,
+} from "../waitrose.js";
+import {
+  loadConfig,
+  updateConfig,
+  withConfigLock,
+  getActiveProfile,
+  getCredentialsFromEnv,
+  isTokenExpired,
+  DEFAULT_PROFILE,
+  type WaitroseConfig,
+} from "./config.js";
+import { createRecordingTransport, redact, redactText } from "./fixtures.js";
+import { FileCache } from "./cache.js";
+
+// Shared by every client the CLI creates, so re-login retries count against the same budget
+const limiter = new RequestLimiter({ requestsPerSecond: 5, burst: 5, maxConcurrent: 4 });
+
+// A hung request should fail the command rather than stall it forever
+const REQUEST_TIMEOUT_MS = 30_000;
+
+// Longest request/response body printed by --debug
+const DEBUG_BODY_LIMIT = 2000;
+
+function debugBody(value: unknown): string {
+  const text = typeof value === "string" ? redactText(value) : JSON.stringify(redact(value));
+  return text.length > DEBUG_BODY_LIMIT ? `${text.slice(0, DEBUG_BODY_LIMIT)}… (${text.length} chars)` : text;
+}
+
+/**
+ * Hooks that print every request and response to stderr, with credentials,
+ * tokens and personal details redacted
+ */
+export function debugHooks(): RequestHooks {
+  return {
+    beforeRequest(event) {
+      const retry = event.attempt > 1 ? ` (attempt ${event.attempt})` : "";
+      console.error(`→ ${event.operation} ${event.method} ${event.url}${retry}`);
+      if (event.variables !== null) console.error(`  ${debugBody(event.variables)}`);
+    },
+    afterResponse(event) {
+      const status = event.status ?? (event.error instanceof Error ? event.error.message : "no response");
+      console.error(`← ${event.operation} ${status} ${event.durationMs}ms`);
+      if (event.body !== undefined) console.error(`  ${debugBody(event.body)}`);
+    },
+  };
+}
+
+/**
+ * Save a new or refreshed session over the stored one
+ */
+async function persistSession(session: StoredSession): Promise<void> {
+  // Fields the session doesn't have, such as a refresh token a refresh didn't return, keep their stored values
+  const defined = Object.fromEntries(Object.entries(session).filter(([, value]) => value !== undefined)) as Partial<StoredSession>;
+  await updateConfig(config => ({ ...config, ...defined }));
+}
+
+/**
+ * Username and password for the active profile. The profile's own username wins;
+ * WAITROSE_USERNAME/WAITROSE_PASSWORD apply only to a profile without one or with
+ * the same username, so they never log another profile into the wrong account.
+ */
+function resolveCredentials(config: WaitroseConfig): { username?: string; password?: string } {
+  const envCreds = getCredentialsFromEnv();
+  const username = config.username || envCreds.username;
+  const envMatches = !envCreds.username || envCreds.username === username;
+  // A password is only stored in config when the vault is enabled
+  const password = config.password || (envMatches ? envCreds.password : undefined);
+  return { username, password };
+}
+
+/**
+ * The session saved by the last process to log in or refresh, if any
+ */
+async function storedSession(): Promise<StoredSession | null> {
+  const config = await loadConfig();
+  return config.accessToken ? { ...config, accessToken: config.accessToken } : null;
+}
+
+/**
+ * Username and password for logging in again, if both are available
+ */
+async function storedCredentials(): Promise<{ username: string; password: string } | null> {
+  const { username, password } = resolveCredentials(await loadConfig());
+  return username && password ? { username, password } : null;
+}
+
+/**
+ * The active profile's weekly budget, if one is set
+ */
+async function storedBudget(): Promise<BudgetPolicy | null> {
+  const { budget, budgetMode } = (await loadConfig()).preferences ?? {};
+  return budget ? { weeklyLimit: budget, mode: budgetMode } : null;
+}
+
+/**
+ * Warn that a trolley change left the week over budget. Goes to stderr so
+ * --json output stays parseable.
+ */
+function warnOverBudget(status: BudgetStatus): void {
+  console.error(`! £${(-status.remaining).toFixed(2)} over this week's budget of £${status.weeklyLimit.toFixed(2)}. Run 'waitrose budget' for details.`);
+}
+
+/**
+ * Restore the stored session into a client if it's still valid
+ */
+function restoreStoredSession(client: WaitroseClient, config: WaitroseConfig): boolean {
+  if (!config.accessToken || isTokenExpired(config)) return false;
+  client.restoreSession({ ...config, accessToken: config.accessToken });
+  return true;
+}
+
+/**
+ * Log in with the profile's credentials and save the username alongside the new session
+ */
+async function loginWithCredentials(client: WaitroseClient, username: string, password: string): Promise<void> {
+  await client.login(username, password);
+  await updateConfig(config => ({ ...config, username }));
+}
+
+/**
+ * Create an unauthenticated client with the CLI's default options
+ */
+export async function createClient(): Promise<WaitroseClient> {
+  // WAITROSE_API_ORIGIN points the CLI at a proxy or the local mock server
+  const origin = process.env.WAITROSE_API_ORIGIN;
+  let transport = origin ? transportForOrigin(origin) : undefined;
+
+  // WAITROSE_RECORD captures sanitized request/response fixtures to a file
+  const recordPath = process.env.WAITROSE_RECORD;
+  if (recordPath) {
+    transport = createRecordingTransport({ transport, path: recordPath }).transport;
+  }
+
+  // WAITROSE_VALIDATE=strict|lenient checks responses against the library's types
+  const validate = process.env.WAITROSE_VALIDATE;
+
+  return new WaitroseClient({
+    transport,
+    rateLimit: limiter,
+    timeoutMs: REQUEST_TIMEOUT_MS,
+    validate: validate === "strict" || validate === "lenient" ? validate : undefined,
+    // WAITROSE_DEBUG (or --debug) prints redacted traffic to stderr
+    hooks: process.env.WAITROSE_DEBUG ? debugHooks() : undefined,
+    // Catalogue lookups are cached on disk unless WAITROSE_NO_CACHE (or --no-cache) is set
+    cache: process.env.WAITROSE_NO_CACHE ? undefined : { store: FileCache.forProfile(await getActiveProfile()) },
+    // Sessions are refreshed before they expire and every new session is saved.
+    // Only one process refreshes at a time; the others wait and reuse its session.
+    session: { credentials: storedCredentials, onSessionChange: persistSession, lock: withConfigLock, load: storedSession },
+    // Trolley changes are checked against the profile's weekly budget, if it has one
+    budget: { policy: storedBudget, onExceeded: warnOverBudget },
+  });
+}
 
 /**
  * Create a client with authentication
  * Handles token refresh and re-authentication automatically
  */
 export async function getAuthenticatedClient(): Promise<WaitroseClient> {
-  const client = new WaitroseClient();
-  const config = await loadConfig();
+  const client = await createClient();
   const envCreds = getCredentialsFromEnv();
 
   // Try env var token first
   if (envCreds.accessToken) {
     // Use token from environment - caller will handle auth errors
-    (client as any).accessToken = envCreds.accessToken;
+    client.restoreSession({ accessToken: envCreds.accessToken });
     return client;
   }
 
-  // Check if we have stored credentials
-  if (config.accessToken && !isTokenExpired(config)) {
-    // Use stored token
-    (client as any).accessToken = config.accessToken;
-    (client as any).refreshToken = config.refreshToken;
-    (client as any).customerId = config.customerId;
-    (client as any).customerOrderId = config.customerOrderId;
-    (client as any).defaultBranchId = config.defaultBranchId;
+  // Use the stored token if it's still valid
+  if (restoreStoredSession(client, await loadConfig())) {
     return client;
   }
 
-  // Token expired or missing - try to re-authenticate
-  const username = envCreds.username || config.username;
-  const password = envCreds.password;
-
-  if (username && password) {
-    try {
-      const session = await client.login(username, password);
-      await saveConfig({
-        ...config,
-        accessToken: session.accessToken,
-        refreshToken: session.refreshToken,
-        customerId: session.customerId,
-        customerOrderId: session.customerOrderId,
-        defaultBranchId: session.defaultBranchId,
-        username,
-        expiresAt: Date.now() + (session.expiresIn * 1000),
-      });
+  // Only one process renews the session at a time; the others wait for the
+  // lock and then pick up the session it saved
+  return withConfigLock(async () => {
+    const config = await loadConfig();
+    if (restoreStoredSession(client, config)) {
       return client;
-    } catch (error) {
-      throw new Error(`Re-authentication failed: ${error instanceof Error ? error.message : String(error)}`);
     }
-  }
 
-  throw new Error("Not authenticated. Run 'waitrose login' or set WAITROSE_USERNAME and WAITROSE_PASSWORD environment variables.");
+    // Token expired - exchange the refresh token for a new session
+    if (config.accessToken && config.refreshToken) {
+      client.restoreSession({ ...config, accessToken: config.accessToken });
+      try {
+        await client.refreshSession();
+        return client;
+      } catch {
+        // Refresh token rejected - fall back to logging in with credentials
+      }
+    }
+
+    // No usable session - try to re-authenticate
+    const { username, password } = resolveCredentials(config);
+
+    if (username && password) {
+      try {
+        await loginWithCredentials(client, username, password);
+        return client;
+      } catch (error) {
+        throw new AuthExpiredError(`Re-authentication failed: ${error instanceof Error ? error.message : String(error)}`, null, { cause: error });
+      }
+    }
+
+    const profile = await getActiveProfile();
+    const forProfile = profile === DEFAULT_PROFILE ? "" : ` for profile '${profile}'`;
+    throw new AuthExpiredError(`Not authenticated${forProfile}. Run 'waitrose login' or set WAITROSE_USERNAME and WAITROSE_PASSWORD environment variables.`);
+  });
 }
 
 /**
@@ -73,37 +235,37 @@ export async function withAuth<T>(fn: (client: WaitroseClient) => Promise<T>): P
   try {
     return await fn(client);
   } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    
-    // Check if it's an auth error
-    if (message.includes("401") || message.includes("Unauthorized") || message.includes("UNAUTHENTICATED")) {
-      // Try to re-authenticate from env vars
-      const envCreds = getCredentialsFromEnv();
-      const config = await loadConfig();
-      const username = envCreds.username || config.username;
-      const password = envCreds.password;
-
-      if (username && password) {
-        const newClient = new WaitroseClient();
-        try {
-          const session = await newClient.login(username, password);
-          await saveConfig({
-            ...config,
-            accessToken: session.accessToken,
-            refreshToken: session.refreshToken,
-            customerId: session.customerId,
-            customerOrderId: session.customerOrderId,
-            defaultBranchId: session.defaultBranchId,
-            username,
-            expiresAt: Date.now() + (session.expiresIn * 1000),
-          });
-          return await fn(newClient);
-        } catch (retryError) {
-          throw new Error(`Re-authentication failed: ${retryError instanceof Error ? retryError.message : String(retryError)}`);
-        }
+    if (error instanceof AuthExpiredError) {
+      const rejectedToken = client.exportSession()?.accessToken;
+
+      let newClient: WaitroseClient | null;
+      try {
+        newClient = await withConfigLock(async () => {
+          const config = await loadConfig();
+          const fresh = await createClient();
+
+          // Another process may have logged in while this one waited for the lock
+          if (config.accessToken !== rejectedToken && restoreStoredSession(fresh, config)) {
+            return fresh;
+          }
+
+          // Try to re-authenticate from stored or env credentials
+          const { username, password } = resolveCredentials(config);
+          if (!username || !password) return null;
+
+          await loginWithCredentials(fresh, username, password);
+          return fresh;
+        });
+      } catch (retryError) {
+        throw new AuthExpiredError(`Re-authentication failed: ${retryError instanceof Error ? retryError.message : String(retryError)}`, null, { cause: retryError });
+      }
+
+      // Errors from the retried command keep their own type (and exit code)
+      if (newClient) {
+        return await fn(newClient);
       }
 
-      throw new Error("Authentication failed. Please run 'waitrose login' again.");
+      throw new AuthExpiredError("Authentication failed. Please run 'waitrose login' again.", null, { cause: error });
     }
 
     throw error;
@@ -0,0 +1,63 @@
+/**
+ * On-disk cache tests
+ * Run with: bun test cache.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileCache } from "./cache";
+
+let dir: string;
+let cache: FileCache;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "waitrose-cache-"));
+  cache = new FileCache(join(dir, "cache"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("FileCache", () => {
+  test("stores values across instances", async () => {
+    await cache.set("products:651:[\"088903\"]", [{ lineNumber: "088903" }], 60_000);
+    expect(await new FileCache(join(dir, "cache")).get("products:651:[\"088903\"]")).toEqual([{ lineNumber: "088903" }]);
+    expect(await cache.get("products:652:[\"088903\"]")).toBeUndefined();
+  });
+
+  test("expired entries are misses and get removed", async () => {
+    await cache.set("GetCampaigns:651:{}", [], 1);
+    await Bun.sleep(5);
+    expect(await cache.get("GetCampaigns:651:{}")).toBeUndefined();
+    expect(readdirSync(join(dir, "cache"))).toHaveLength(0);
+  });
+
+  test("invalidate removes entries by prefix or all of them", async () => {
+    await cache.set("GetCampaigns:651:{}", [], 60_000);
+    await cache.set("browse:651:{}", { products: [] }, 60_000);
+    await cache.set("products:651:[]", [], 60_000);
+
+    await cache.invalidate("browse:");
+    expect(await cache.get("browse:651:{}")).toBeUndefined();
+    expect(await cache.get("GetCampaigns:651:{}")).toEqual([]);
+
+    await cache.invalidate();
+    expect(readdirSync(join(dir, "cache"))).toHaveLength(0);
+  });
+
+  test("invalidate leaves files that aren't cache entries alone", async () => {
+    await cache.set("GetCampaigns:651:{}", [], 60_000);
+    writeFileSync(join(dir, "cache", "other.json"), JSON.stringify({ a: 1 }));
+    writeFileSync(join(dir, "cache", "notes.json"), "not json");
+
+    await cache.invalidate();
+    expect(readdirSync(join(dir, "cache")).sort()).toEqual(["notes.json", "other.json"]);
+  });
+
+  test("invalidating a cache that was never written is a no-op", async () => {
+    await new FileCache(join(dir, "missing")).invalidate();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * On-disk response cache for the Waitrose CLI
+ * One JSON file per entry under ~/.waitrose/cache/<profile>, so catalogue
+ * lookups survive between commands without crossing between accounts
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import type { CacheStore } from "../waitrose.js";
+import { CONFIG_DIR } from "./config.js";
+
+export const CACHE_DIR = join(CONFIG_DIR, "cache");
+
+interface CacheFile {
+  key: string;
+  expiresAt: number;
+  value: unknown;
+}
+
+function isCacheFile(value: unknown): value is CacheFile {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.key === "string" && typeof entry.expiresAt === "number" && "value" in entry;
+}
+
+export class FileCache implements CacheStore {
+  constructor(readonly dir: string = join(CACHE_DIR, "default")) {}
+
+  /** The cache for a profile's lookups, which use its branch and account */
+  static forProfile(profile: string): FileCache {
+    return new FileCache(join(CACHE_DIR, profile));
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, createHash("sha256").update(key).digest("hex") + ".json");
+  }
+
+  private async read(path: string): Promise<CacheFile | undefined> {
+    try {
+      const entry: unknown = JSON.parse(await readFile(path, "utf8"));
+      return isCacheFile(entry) ? entry : undefined;
+    } catch {
+      // Missing or unreadable entries are treated as misses
+      return undefined;
+    }
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    const path = this.pathFor(key);
+    const entry = await this.read(path);
+    if (!entry || entry.key !== key) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      await rm(path, { force: true });
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const entry: CacheFile = { key, expiresAt: Date.now() + ttlMs, value };
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(key), JSON.stringify(entry));
+  }
+
+  async invalidate(prefix: string = ""): Promise<void> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return;
+    }
+
+    // Files that aren't cache entries are left alone
+    for (const name of names.filter(n => n.endsWith(".json"))) {
+      const path = join(this.dir, name);
+      const entry = await this.read(path);
+      if (entry?.key.startsWith(prefix)) {
+        await rm(path, { force: true });
+      }
+    }
+  }
+}
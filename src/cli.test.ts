@@ -4,17 +4,49 @@
  * Tests the CLI commands using Bun shell.
  * Run with: bun test cli.test.ts
  * 
- * Requires environment variables:
+ * Runs offline against the mock server in src/mock-server.ts, with config
+ * stored in a temporary directory. To run against the real API instead, set:
+ *   WAITROSE_LIVE=1
  *   WAITROSE_USERNAME - Your Waitrose account email
  *   WAITROSE_PASSWORD - Your Waitrose account password
  */
 
-import { describe, test, expect, beforeAll } from "bun:test";
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import { $ } from "bun";
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { startMockServer, MOCK_USERNAME, MOCK_PASSWORD, type MockServer } from "./mock-server";
+
+const live = process.env.WAITROSE_LIVE === "1";
+
+let server: MockServer | null = null;
+let env: Record<string, string | undefined> = process.env;
+let configDir: string | null = null;
+
+beforeAll(() => {
+  if (live) return;
+  server = startMockServer();
+  configDir = mkdtempSync(join(tmpdir(), "waitrose-cli-test-"));
+  env = {
+    ...process.env,
+    WAITROSE_API_ORIGIN: server.url,
+    WAITROSE_CONFIG_DIR: configDir,
+    WAITROSE_USERNAME: MOCK_USERNAME,
+    WAITROSE_PASSWORD: MOCK_PASSWORD,
+    WAITROSE_ACCESS_TOKEN: undefined,
+    WAITROSE_TOKEN: undefined,
+  };
+});
+
+afterAll(() => {
+  server?.stop();
+  if (configDir) rmSync(configDir, { recursive: true, force: true });
+});
 
 // Helper to run CLI commands
-async function cli(args: string): Promise<{ stdout: string; stderr: string; exitCode: number }> {
-  const result = await $`bun run src/cli.ts ${args.split(" ")}`.quiet().nothrow();
+async function cli(args: string, extraEnv: Record<string, string | undefined> = {}): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const result = await $`bun run src/cli.ts ${args.split(" ")}`.env({ ...env, ...extraEnv }).quiet().nothrow();
   return {
     stdout: result.stdout.toString(),
     stderr: result.stderr.toString(),
@@ -85,6 +117,305 @@ describe("CLI Authentication", () => {
     expect(result.exitCode).toBe(0);
     expect(stripAnsi(result.stdout)).toContain("Token valid");
   });
+
+  test.skipIf(live)("expired tokens are refreshed without a password", async () => {
+    const configFile = join(configDir!, "config.json");
+    const file = JSON.parse(readFileSync(configFile, "utf8"));
+    const config = file.profiles.default;
+    writeFileSync(configFile, JSON.stringify({ ...file, profiles: { default: { ...config, expiresAt: 0 } } }));
+
+    const result = await cli("trolley --debug", { WAITROSE_PASSWORD: undefined });
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).toContain("→ RefreshSession");
+    expect(result.stderr).not.toContain("→ NewSession");
+
+    const refreshed = JSON.parse(readFileSync(configFile, "utf8")).profiles.default;
+    expect(refreshed.accessToken).not.toBe(config.accessToken);
+    expect(refreshed.expiresAt).toBeGreaterThan(Date.now());
+  });
+});
+
+describe.skipIf(live)("CLI Config Storage", () => {
+  let vaultDir: string;
+  const vaultEnv = () => ({ WAITROSE_CONFIG_DIR: vaultDir, WAITROSE_VAULT_PASSPHRASE: "correct horse" });
+
+  beforeAll(() => {
+    vaultDir = mkdtempSync(join(tmpdir(), "waitrose-vault-test-"));
+  });
+
+  afterAll(() => {
+    rmSync(vaultDir, { recursive: true, force: true });
+  });
+
+  test("config is written owner-only without leftover temp files", () => {
+    expect(statSync(join(configDir!, "config.json")).mode & 0o777).toBe(0o600);
+    expect(readdirSync(configDir!).filter(name => name.endsWith(".tmp"))).toEqual([]);
+  });
+
+  test("vault enable encrypts tokens and the password", async () => {
+    expect((await cli("login", vaultEnv())).exitCode).toBe(0);
+    const result = await cli("vault enable --save-password", vaultEnv());
+    expect(result.exitCode).toBe(0);
+    expect(stripAnsi(result.stdout)).toContain("password stored");
+
+    const text = readFileSync(join(vaultDir, "config.json"), "utf8");
+    expect(JSON.parse(text).vault.kdf).toBe("scrypt");
+    expect(text).not.toContain(MOCK_USERNAME);
+    expect(text).not.toContain("mock-");
+    expect(statSync(join(vaultDir, "config.json")).mode & 0o777).toBe(0o600);
+  });
+
+  test("the stored password re-authenticates without WAITROSE_PASSWORD", async () => {
+    // Invalidate every session so both the access and refresh tokens are rejected
+    server!.state.sessions.clear();
+    const result = await cli("trolley --debug", { ...vaultEnv(), WAITROSE_PASSWORD: undefined });
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).toContain("→ NewSession");
+  });
+
+  test("a wrong or missing passphrase is reported", async () => {
+    const wrong = await cli("trolley", { ...vaultEnv(), WAITROSE_VAULT_PASSPHRASE: "wrong" });
+    expect(wrong.exitCode).toBe(1);
+    expect(wrong.stderr + wrong.stdout).toContain("wrong vault passphrase");
+
+    const missing = await cli("trolley", { ...vaultEnv(), WAITROSE_VAULT_PASSPHRASE: undefined });
+    expect(missing.exitCode).toBe(1);
+    expect(missing.stderr + missing.stdout).toContain("WAITROSE_VAULT_PASSPHRASE");
+  });
+
+  test("vault disable stores plain JSON without the password", async () => {
+    const result = await cli("vault disable", vaultEnv());
+    expect(result.exitCode).toBe(0);
+
+    const config = JSON.parse(readFileSync(join(vaultDir, "config.json"), "utf8")).profiles.default;
+    expect(config.accessToken).toBeDefined();
+    expect(config.password).toBeUndefined();
+  });
+});
+
+describe.skipIf(live)("CLI Profiles", () => {
+  let profileDir: string;
+  const profileEnv = (extra: Record<string, string | undefined> = {}) => ({
+    WAITROSE_CONFIG_DIR: profileDir,
+    WAITROSE_USERNAME: undefined,
+    WAITROSE_PASSWORD: undefined,
+    ...extra,
+  });
+
+  beforeAll(() => {
+    profileDir = mkdtempSync(join(tmpdir(), "waitrose-profile-test-"));
+  });
+
+  afterAll(() => {
+    rmSync(profileDir, { recursive: true, force: true });
+  });
+
+  test("legacy single-identity config becomes the default profile", async () => {
+    writeFileSync(join(profileDir, "config.json"), JSON.stringify({ username: "old@example.com" }));
+    const profiles = JSON.parse((await cli("profile list --json", profileEnv())).stdout);
+    expect(profiles).toEqual([{ name: "default", current: true, username: "old@example.com", loggedIn: false }]);
+  });
+
+  test("--profile logs in and stores tokens per profile", async () => {
+    const login = await cli(`--profile work login ${MOCK_USERNAME} ${MOCK_PASSWORD}`, profileEnv());
+    expect(login.exitCode).toBe(0);
+
+    const file = JSON.parse(readFileSync(join(profileDir, "config.json"), "utf8"));
+    expect(file.profiles.work.accessToken).toBeDefined();
+    expect(file.profiles.default).toEqual({ username: "old@example.com" });
+
+    expect((await cli("--profile work trolley", profileEnv())).exitCode).toBe(0);
+    const other = await cli("trolley", profileEnv());
+    expect(other.exitCode).toBe(2);
+  });
+
+  test("WAITROSE_PROFILE and profile use select the active profile", async () => {
+    expect((await cli("trolley", profileEnv({ WAITROSE_PROFILE: "work" }))).exitCode).toBe(0);
+
+    expect((await cli("profile use work", profileEnv())).exitCode).toBe(0);
+    expect((await cli("trolley", profileEnv())).exitCode).toBe(0);
+    expect(stripAnsi((await cli("check", profileEnv())).stdout)).toContain("Profile: work");
+  });
+
+  test("profile set stores per-profile preferences", async () => {
+    expect((await cli("profile set slot-type collection", profileEnv())).exitCode).toBe(0);
+    expect((await cli("profile set slot-type van", profileEnv())).exitCode).toBe(1);
+
+    const file = JSON.parse(readFileSync(join(profileDir, "config.json"), "utf8"));
+    expect(file.profiles.work.preferences).toEqual({ slotType: "collection" });
+    expect(file.profiles.default.preferences).toBeUndefined();
+  });
+
+  test("profile remove deletes the profile and falls back to default", async () => {
+    expect((await cli("profile remove work", profileEnv())).exitCode).toBe(0);
+    expect((await cli("profile remove work", profileEnv())).exitCode).toBe(1);
+
+    const profiles = JSON.parse((await cli("profile list --json", profileEnv())).stdout);
+    expect(profiles.map((p: { name: string }) => p.name)).toEqual(["default"]);
+  });
+
+  test("profile names that aren't plain directory names are rejected", async () => {
+    mkdirSync(join(profileDir, "victim"), { recursive: true });
+    writeFileSync(join(profileDir, "victim", "important.json"), "{}");
+
+    const cleared = await cli("--profile ../victim cache clear", profileEnv());
+    expect(cleared.exitCode).toBe(10);
+    expect(cleared.stderr).toContain("Invalid profile name '../victim'");
+    expect(existsSync(join(profileDir, "victim", "important.json"))).toBe(true);
+
+    expect((await cli("trolley", profileEnv({ WAITROSE_PROFILE: ".." }))).exitCode).toBe(10);
+    expect((await cli("profile use a/b", profileEnv())).exitCode).toBe(10);
+    expect((await cli("profile remove ..", profileEnv())).exitCode).toBe(10);
+  });
+});
+
+describe.skipIf(live)("CLI Concurrent Config Access", () => {
+  let lockDir: string;
+  const lockEnv = () => ({ WAITROSE_CONFIG_DIR: lockDir });
+  const readProfile = () => JSON.parse(readFileSync(join(lockDir, "config.json"), "utf8")).profiles.default;
+
+  beforeAll(async () => {
+    lockDir = mkdtempSync(join(tmpdir(), "waitrose-lock-test-"));
+    await cli("login", lockEnv());
+  });
+
+  afterAll(() => {
+    rmSync(lockDir, { recursive: true, force: true });
+  });
+
+  test("concurrent updates to one profile are merged", async () => {
+    const results = await Promise.all([
+      cli("profile set slot-type collection", lockEnv()),
+      cli("profile set postcode RG128YA", lockEnv()),
+      cli("profile set address addr-1", lockEnv()),
+    ]);
+    expect(results.map(r => r.exitCode)).toEqual([0, 0, 0]);
+
+    const config = readProfile();
+    expect(config.preferences).toEqual({ slotType: "collection", postcode: "RG128YA" });
+    expect(config.addressId).toBe("addr-1");
+    expect(config.accessToken).toBeDefined();
+  });
+
+  test("only one process renews an expired session; the others reuse it", async () => {
+    const configFile = join(lockDir, "config.json");
+    const file = JSON.parse(readFileSync(configFile, "utf8"));
+    writeFileSync(configFile, JSON.stringify({ ...file, profiles: { default: { ...file.profiles.default, expiresAt: 0 } } }));
+
+    const results = await Promise.all([1, 2, 3].map(() => cli("trolley --debug", lockEnv())));
+    expect(results.map(r => r.exitCode)).toEqual([0, 0, 0]);
+
+    const renewals = results.flatMap(r => r.stderr.match(/→ (RefreshSession|NewSession)/g) ?? []);
+    expect(renewals).toEqual(["→ RefreshSession"]);
+    expect(readProfile().expiresAt).toBeGreaterThan(Date.now());
+    expect(readdirSync(lockDir).filter(name => name.endsWith(".lock"))).toEqual([]);
+  });
+
+  test("only one process refreshes a session that's about to expire", async () => {
+    const configFile = join(lockDir, "config.json");
+    const file = JSON.parse(readFileSync(configFile, "utf8"));
+    // Inside the client's refresh margin but not yet expired by isTokenExpired
+    const expiresAt = Date.now() + 2 * 60_000;
+    writeFileSync(configFile, JSON.stringify({ ...file, profiles: { default: { ...file.profiles.default, expiresAt } } }));
+
+    const results = await Promise.all([1, 2, 3].map(() => cli("trolley --debug", lockEnv())));
+    expect(results.map(r => r.exitCode)).toEqual([0, 0, 0]);
+
+    const renewals = results.flatMap(r => r.stderr.match(/→ (RefreshSession|NewSession)/g) ?? []);
+    expect(renewals).toEqual(["→ RefreshSession"]);
+    expect(readProfile().expiresAt).toBeGreaterThan(expiresAt);
+  });
+
+  test("a lock left by an exited process is ignored", async () => {
+    writeFileSync(join(lockDir, "config.json.lock"), JSON.stringify({ pid: 2 ** 22 + 1, createdAt: Date.now() }));
+
+    const result = await cli("profile set postcode SW1A1AA", lockEnv());
+    expect(result.exitCode).toBe(0);
+    expect(readProfile().preferences.postcode).toBe("SW1A1AA");
+  });
+});
+
+describe.skipIf(live)("CLI Config Command", () => {
+  let dir: string;
+  const configEnv = () => ({ WAITROSE_CONFIG_DIR: dir, WAITROSE_USERNAME: undefined, WAITROSE_PASSWORD: undefined });
+  const configFile = () => join(dir, "config.json");
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "waitrose-config-test-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("path, set and get", async () => {
+    expect((await cli("config path", configEnv())).stdout.trim()).toBe(configFile());
+
+    expect((await cli("config set postcode RG128YA", configEnv())).exitCode).toBe(0);
+    expect((await cli("config get postcode", configEnv())).stdout.trim()).toBe("RG128YA");
+
+    const all = JSON.parse((await cli("config get --json", configEnv())).stdout);
+    expect(all).toEqual({ username: null, address: null, "slot-type": null, postcode: "RG128YA", favourites: null, budget: null, "budget-mode": null });
+    expect(JSON.parse(readFileSync(configFile(), "utf8")).version).toBe(2);
+  });
+
+  test("unversioned files are migrated", async () => {
+    writeFileSync(configFile(), JSON.stringify({ username: "old@example.com" }), { mode: 0o600 });
+
+    const doctor = await cli("config doctor", configEnv());
+    expect(doctor.exitCode).toBe(10);
+    expect(stripAnsi(doctor.stdout)).toContain("config version 0 needs migrating to 2");
+
+    // Commands read old files as they are
+    expect((await cli("config get username", configEnv())).stdout.trim()).toBe("old@example.com");
+
+    expect((await cli("config doctor --fix", configEnv())).exitCode).toBe(0);
+    expect(JSON.parse(readFileSync(configFile(), "utf8"))).toEqual({
+      version: 2,
+      profiles: { default: { username: "old@example.com" } },
+    });
+  });
+
+  test("invalid fields are reported, then dropped by doctor --fix", async () => {
+    writeFileSync(configFile(), JSON.stringify({
+      version: 2,
+      profiles: { default: { username: "me@example.com", expiresAt: "soon" } },
+    }));
+    chmodSync(configFile(), 0o644);
+
+    const result = await cli("config get", configEnv());
+    expect(result.exitCode).toBe(10);
+    expect(stripAnsi(result.stderr)).toContain("profiles.default.expiresAt: expected number, got string");
+
+    const fix = await cli("config doctor --fix", configEnv());
+    expect(fix.exitCode).toBe(0);
+    expect(stripAnsi(fix.stdout)).toContain("Dropped invalid profiles.default.expiresAt");
+    expect(stripAnsi(fix.stdout)).toContain("Set permissions to 600");
+    expect(JSON.parse(readFileSync(configFile(), "utf8")).profiles.default).toEqual({ username: "me@example.com" });
+    expect(statSync(configFile()).mode & 0o777).toBe(0o600);
+  });
+
+  test("corrupt files are reported instead of ignored, and moved aside by doctor --fix", async () => {
+    writeFileSync(configFile(), "{ not json", { mode: 0o600 });
+
+    const result = await cli("trolley", configEnv());
+    expect(result.exitCode).toBe(10);
+    expect(stripAnsi(result.stderr)).toContain("is not valid JSON");
+
+    const report = JSON.parse((await cli("config doctor --json", configEnv())).stdout);
+    expect(report.problems[0]).toStartWith("not valid JSON");
+
+    expect((await cli("config doctor --fix", configEnv())).exitCode).toBe(0);
+    expect(readdirSync(dir).filter(name => name.startsWith("config.json.corrupt-"))).toHaveLength(1);
+    expect((await cli("config doctor", configEnv())).exitCode).toBe(0);
+  });
+
+  test("files from a newer version are refused", async () => {
+    writeFileSync(configFile(), JSON.stringify({ version: 99, profiles: {} }), { mode: 0o600 });
+    const result = await cli("config get", configEnv());
+    expect(result.exitCode).toBe(10);
+    expect(stripAnsi(result.stderr)).toContain("newer version of waitrose");
+  });
 });
 
 describe("CLI Account", () => {
@@ -146,11 +477,174 @@ describe("CLI Trolley", () => {
     expect(item).toBeDefined();
   });
 
+  test("trolley export writes the chosen format", async () => {
+    const csv = await cli("trolley export --format csv");
+    expect(csv.exitCode).toBe(0);
+    expect(csv.stdout).toStartWith("Line Number,Name,Brand,Size,Quantity,Unit Price,Total,Promotions,Note");
+    expect(csv.stdout).toContain(TEST_LINE_NUMBER);
+
+    if (live) return;
+    const file = join(configDir!, "trolley.html");
+    const html = await cli(`trolley export --output ${file}`);
+    expect(html.exitCode).toBe(0);
+    expect(readFileSync(file, "utf8")).toStartWith("<!DOCTYPE html>");
+  });
+
+  test.skipIf(live)("snapshots can be diffed and restored, and empty can be undone", async () => {
+    expect((await cli("trolley snapshot save weekly")).exitCode).toBe(0);
+    await cli("add 015480 2");
+    await cli(`remove ${TEST_LINE_NUMBER}`);
+
+    const diff = stripAnsi((await cli("trolley diff weekly")).stdout);
+    expect(diff).toContain("+ 2x Waitrose Free Range Large Eggs (015480)");
+    expect(diff).toContain(`- 1x Waitrose Fairtrade Bananas (${TEST_LINE_NUMBER})`);
+
+    const restore = await cli("trolley restore weekly");
+    expect(restore.exitCode).toBe(0);
+    expect(stripAnsi((await cli("trolley diff weekly")).stdout)).toContain("No differences");
+
+    expect((await cli("empty")).exitCode).toBe(0);
+    expect((await cli("trolley restore before-empty")).exitCode).toBe(0);
+    const data = await cliJson<{ trolley: { trolleyItems: Array<{ lineNumber: string }> } }>("trolley");
+    expect(data.trolley.trolleyItems.map(i => i.lineNumber)).toContain(TEST_LINE_NUMBER);
+
+    const snapshots = JSON.parse((await cli("trolley snapshot list --json")).stdout);
+    expect(snapshots.map((s: { name: string }) => s.name).sort()).toEqual(["before-empty", "before-restore", "weekly"]);
+  });
+
   test("remove item from trolley", async () => {
     const result = await cli(`remove ${TEST_LINE_NUMBER}`);
     expect(result.exitCode).toBe(0);
     expect(stripAnsi(result.stdout)).toContain("Removed");
   });
+
+  test.skipIf(live)("add resolves product names", async () => {
+    const added = await cli("add semi skimmed milk 2");
+    expect(added.exitCode).toBe(0);
+    expect(stripAnsi(added.stdout)).toContain("Added 2x Waitrose British Semi Skimmed Milk 4 Pints");
+
+    const ambiguous = await cli("add 2 pints milk");
+    expect(ambiguous.exitCode).toBe(1);
+    expect(stripAnsi(ambiguous.stderr)).toContain("'2 pints milk' matches several products");
+    expect(stripAnsi(ambiguous.stdout)).toContain("2. Waitrose Duchy Organic Whole Milk 2 Pints 1.136L — £1.45 [052816] (size matches 2 pints)");
+
+    const cheapest = await cli("add 2 pints milk --cheapest");
+    expect(stripAnsi(cheapest.stdout)).toContain("Added 1x Waitrose British Semi Skimmed Milk 2 Pints");
+
+    expect((await cli("profile set favourites 052816")).exitCode).toBe(0);
+    const favourite = await cli("add 2 pints milk");
+    expect(stripAnsi(favourite.stdout)).toContain("Added 1x Waitrose Duchy Organic Whole Milk 2 Pints");
+
+    await cli("profile set favourites");
+    for (const lineNumber of ["052814", "052812", "052816"]) await cli(`remove ${lineNumber}`);
+  });
+
+  test.skipIf(live)("conflicts explains conflicting lines and resolves them", async () => {
+    await cli("add 093721");
+    await cli("add 905117");
+
+    try {
+      const listed = stripAnsi((await cli("conflicts")).stdout);
+      expect(listed).toContain("Conflicts (1 hard, 1 soft)");
+      expect(listed).toContain("Oatly Oat Drink Barista Edition is currently out of stock");
+      expect(listed).toContain("→ waitrose conflicts swap 093721");
+      expect(listed).not.toContain("→ waitrose conflicts swap 905117");
+      expect(stripAnsi((await cli("trolley")).stdout)).toContain("2 items have conflicts");
+
+      const suggestions = stripAnsi((await cli("conflicts swap 093721")).stdout);
+      expect(suggestions).toContain("1. Waitrose British Semi Skimmed Milk 2 Pints 1.136L — £1.10 [052812]");
+
+      const swapped = await cli("conflicts swap 093721 052812");
+      expect(swapped.exitCode).toBe(0);
+      expect(stripAnsi(swapped.stdout)).toContain("Swapped Oatly Oat Drink Barista Edition for Waitrose British Semi Skimmed Milk 2 Pints");
+      expect(stripAnsi(swapped.stdout)).toContain("1 conflict left");
+
+      const refused = await cli("conflicts swap 905117 052812");
+      expect(refused.exitCode).toBe(1);
+      expect(stripAnsi(refused.stderr)).toContain("this conflict can be resolved with: remove, slot");
+
+      const dates = stripAnsi((await cli("conflicts slot 905117")).stdout).match(/\d{4}-\d{2}-\d{2}/g)!;
+      expect(dates).toHaveLength(3);
+      const booked = await cli(`conflicts slot 905117 ${dates[0]} --slot ${dates[0]}_09`);
+      expect(booked.exitCode).toBe(0);
+      expect(stripAnsi(booked.stdout)).toContain(`Slot booked on ${dates[0]}`);
+      expect(stripAnsi(booked.stdout)).toContain("No conflicts left");
+    } finally {
+      server!.state.bookedSlotId = null;
+      for (const lineNumber of ["093721", "905117", "052812"]) await cli(`remove ${lineNumber}`);
+    }
+  });
+
+  test.skipIf(live)("add takes weights and trolley shows estimates for weighed lines", async () => {
+    try {
+      const mince = await cli("add 500g of mince");
+      expect(mince.exitCode).toBe(0);
+      expect(stripAnsi(mince.stdout)).toContain("Added 500g Waitrose Beef Steak Mince from the Counter to trolley");
+      expect(stripAnsi(mince.stdout)).toContain("Est. £4.28 - £5.23 for 450g - 550g");
+
+      expect(stripAnsi((await cli("add potatoes 1500g")).stdout)).toContain("Added 1.5kg Waitrose Loose British Potatoes");
+      expect(stripAnsi((await cli("add 088903 x3")).stdout)).toContain("Added 3x Waitrose Fairtrade Bananas");
+
+      const refused = await cli("add 834209 2");
+      expect(refused.exitCode).toBe(1);
+      expect(stripAnsi(refused.stderr)).toContain("is sold by weight; give a weight such as 500g");
+
+      const badUnit = await cli("add 088903 2 --uom LB");
+      expect(badUnit.exitCode).toBe(1);
+      expect(stripAnsi(badUnit.stderr)).toContain("--uom must be one of C62, KGM, GRM");
+
+      const trolley = stripAnsi((await cli("trolley")).stdout);
+      expect(trolley).toContain("500g Waitrose Beef Steak Mince from the Counter — £4.75\n     Est. £4.28 - £5.23 for 450g - 550g");
+      expect(trolley).toContain("1.5kg Waitrose Loose British Potatoes");
+    } finally {
+      for (const lineNumber of ["834209", "721551", "088903"]) await cli(`remove ${lineNumber}`);
+    }
+  });
+
+  test.skipIf(live)("note and substitute set line preferences shown by trolley", async () => {
+    await cli("add 088903 2 --no-substitutes");
+    await cli("add 015480");
+
+    try {
+      const noted = await cli("note 015480 Large ones please");
+      expect(noted.exitCode).toBe(0);
+      expect(stripAnsi(noted.stdout)).toContain("Note for Waitrose Free Range Large Eggs: Large ones please");
+
+      let trolley = stripAnsi((await cli("trolley")).stdout);
+      expect(trolley).toContain("Line: 088903 · No substitutes");
+      expect(trolley).toContain("Line: 015480\n     Note: Large ones please");
+
+      expect(stripAnsi((await cli("substitute 088903 on")).stdout)).toContain("Substitutes allowed for Waitrose Fairtrade Bananas");
+      expect(stripAnsi((await cli("substitute all off")).stdout)).toContain("Substitutes not allowed for 2 items");
+      await cli("note 015480");
+
+      trolley = stripAnsi((await cli("trolley")).stdout);
+      expect(trolley).toContain("Line: 015480 · No substitutes");
+      expect(trolley).not.toContain("Note:");
+
+      expect((await cli("substitute 088903 maybe")).exitCode).toBe(1);
+    } finally {
+      await cli("remove 088903");
+      await cli("remove 015480");
+    }
+  });
+
+  test.skipIf(live)("import adds a CSV shopping list and reports rows it couldn't add", async () => {
+    const file = join(configDir!, "shop.csv");
+    writeFileSync(file, "item,qty,note\n064532,2,Mature please\nsemi skimmed milk 2 pints,1,\ndragon fruit,1,\n");
+
+    const result = await cli(`import ${file}`);
+    expect(result.exitCode).toBe(1);
+    const output = stripAnsi(result.stdout);
+    expect(output).toContain("Added 2 items to trolley");
+    expect(output).toContain("Waitrose British Semi Skimmed Milk 2 Pints");
+    expect(output).toContain("row 4: dragon fruit");
+
+    const data = await cliJson<{ trolley: { trolleyItems: Array<{ lineNumber: string; noteToShopper: string | null }> } }>("trolley");
+    expect(data.trolley.trolleyItems.find(i => i.lineNumber === "064532")?.noteToShopper).toBe("Mature please");
+    await cli("remove 064532");
+    await cli("remove 052812");
+  });
 });
 
 describe("CLI Search", () => {
@@ -209,6 +703,66 @@ describe("CLI Orders", () => {
     expect(Array.isArray(data.pending)).toBe(true);
     expect(Array.isArray(data.previous)).toBe(true);
   });
+
+  test.skipIf(live)("reorder adds a previous order and reports discontinued lines", async () => {
+    const catalogue = server!.state.catalogue;
+    server!.state.catalogue = catalogue.filter(p => p.lineNumber !== "075093");
+    await cli("empty");
+
+    try {
+      const result = await cli("reorder 1000000001");
+      expect(result.exitCode).toBe(1);
+      const output = stripAnsi(result.stdout);
+      expect(output).toContain("Added 4 items from order 1000000001");
+      expect(output).toContain("500g Waitrose Beef Steak Mince from the Counter (834209)");
+      expect(output).toContain("075093: No longer sold");
+
+      const data = await cliJson<{ trolley: { trolleyItems: Array<{ lineNumber: string; noteToShopper: string | null }> } }>("trolley");
+      expect(data.trolley.trolleyItems.find(i => i.lineNumber === "052814")?.noteToShopper).toBe("Longest date please");
+    } finally {
+      server!.state.catalogue = catalogue;
+      await cli("empty");
+    }
+  });
+});
+
+describe.skipIf(live)("CLI Budget", () => {
+  test("budget needs a limit set first", async () => {
+    const result = await cli("budget");
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("config set budget");
+  });
+
+  test("going over budget warns, or refuses the change in refuse mode", async () => {
+    await cli("empty");
+    expect((await cli("config set budget 1")).exitCode).toBe(0);
+
+    try {
+      const warned = await cli("add 064532 2");
+      expect(warned.exitCode).toBe(0);
+      expect(warned.stderr).toContain("over this week's budget of £1.00");
+
+      expect((await cli("config set budget-mode refuse")).exitCode).toBe(0);
+      const refused = await cli("add 052816");
+      expect(refused.exitCode).toBe(11);
+      expect(refused.stderr).toContain("so the change was undone");
+
+      const data = await cliJson<{ trolley: { trolleyItems: Array<{ lineNumber: string }> } }>("trolley");
+      expect(data.trolley.trolleyItems.map(i => i.lineNumber)).toEqual(["064532"]);
+
+      const status = await cliJson<{ weeklyLimit: number; trolley: number; remaining: number; mode: string }>("budget");
+      expect(status).toMatchObject({ weeklyLimit: 1, mode: "refuse" });
+      expect(status.trolley).toBeGreaterThan(1);
+
+      const output = stripAnsi((await cli("budget")).stdout);
+      expect(output).toContain("Weekly limit: £1.00 (refuse when over)");
+      expect(output).toContain(`Over budget by £${(-status.remaining).toFixed(2)}`);
+    } finally {
+      await cli("config set budget");
+      await cli("config set budget-mode");
+      await cli("empty");
+    }
+  });
 });
 
 describe("CLI Slots", () => {
@@ -248,6 +802,41 @@ describe("CLI Campaigns", () => {
   });
 });
 
+describe("CLI Cache", () => {
+  test("campaigns are served from the cache on the second run", async () => {
+    await cli("campaigns");
+    const result = await cli("campaigns --debug");
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).not.toContain("GetCampaigns");
+  });
+
+  test.skipIf(live)("each profile has its own cache", async () => {
+    await cli("campaigns");
+    const result = await cli("campaigns --profile cache-test --debug");
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).toContain("→ GetCampaigns");
+    await cli("profile remove cache-test");
+  });
+
+  test("cache clear empties the cache", async () => {
+    const result = await cli("cache clear");
+    expect(result.exitCode).toBe(0);
+    expect(stripAnsi(result.stdout)).toContain("Cleared cache");
+    expect((await cli("campaigns --debug")).stderr).toContain("→ GetCampaigns");
+  });
+});
+
+describe("CLI Debug", () => {
+  test("--debug prints redacted traffic to stderr", async () => {
+    const result = await cli("--debug trolley");
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).toContain("→ GetTrolley POST");
+    expect(result.stderr).toMatch(/← GetTrolley 200 \d+ms/);
+    expect(result.stderr).not.toContain("Bearer");
+    expect(stripAnsi(result.stdout)).toContain("Trolley");
+  });
+});
+
 describe("CLI Logout", () => {
   test("logout clears credentials", async () => {
     const result = await cli("logout");
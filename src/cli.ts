@@ -12,9 +12,56 @@
  *   ...
  */
 
-import WaitroseClient, { type SlotType, type UnitOfMeasure } from "../waitrose.js";
-import { loadConfig, saveConfig, clearConfig, CONFIG_FILE } from "./config.js";
-import { withAuth, getAuthenticatedClient } from "./auth.js";
+import {
+  ApiFailureError,
+  AuthExpiredError,
+  BudgetExceededError,
+  GraphQLRequestError,
+  HttpError,
+  NetworkError,
+  SchemaValidationError,
+  TimeoutError,
+  TrolleyConflictError,
+  formatQuantity,
+  parseQuantity,
+  parseShoppingList,
+  resolveQuantity,
+  type ConflictAction,
+  type ParsedQuantity,
+  type ProductResolution,
+  type ResolveStrategy,
+  type SearchProduct,
+  type Slot,
+  type ShoppingListFormat,
+  type SlotType,
+  type TrolleyConflict,
+  type TrolleyProduct,
+  type TrolleyResponse,
+  type UnitOfMeasure,
+} from "../waitrose.js";
+import {
+  loadConfig,
+  updateConfig,
+  clearConfig,
+  isVaultEnabled,
+  hasVaultPassphrase,
+  unlockVault,
+  setVaultEnabled,
+  getActiveProfile,
+  listProfiles,
+  useProfile,
+  removeProfile,
+  checkProfileName,
+  checkConfig,
+  repairConfig,
+  ConfigError,
+  CONFIG_FILE,
+  type WaitroseConfig,
+} from "./config.js";
+import { withAuth, getAuthenticatedClient, createClient } from "./auth.js";
+import { FileCache, CACHE_DIR } from "./cache.js";
+import { EXPORT_FORMATS, formatTrolleyExport, type ExportFormat } from "./trolley-export.js";
+import { SnapshotStore, createSnapshot, diffTrolley, restoreInputs, type SnapshotLine, type TrolleyDiff } from "./snapshots.js";
 
 const VERSION = "1.0.0";
 
@@ -30,6 +77,38 @@ const colors = {
   cyan: "\x1b[36m",
 };
 
+// Process exit codes, so scripts can tell failure kinds apart
+const EXIT_CODES = {
+  error: 1,
+  auth: 2,
+  http: 3,
+  graphql: 4,
+  failure: 5,
+  conflict: 6,
+  network: 7,
+  timeout: 8,
+  schema: 9,
+  config: 10,
+  budget: 11,
+} as const;
+
+/**
+ * Map an error thrown by a command to a process exit code
+ */
+function exitCodeFor(err: unknown): number {
+  if (err instanceof AuthExpiredError) return EXIT_CODES.auth;
+  if (err instanceof BudgetExceededError) return EXIT_CODES.budget;
+  if (err instanceof TrolleyConflictError) return EXIT_CODES.conflict;
+  if (err instanceof ApiFailureError) return EXIT_CODES.failure;
+  if (err instanceof GraphQLRequestError) return EXIT_CODES.graphql;
+  if (err instanceof HttpError) return EXIT_CODES.http;
+  if (err instanceof NetworkError) return EXIT_CODES.network;
+  if (err instanceof TimeoutError) return EXIT_CODES.timeout;
+  if (err instanceof SchemaValidationError) return EXIT_CODES.schema;
+  if (err instanceof ConfigError) return EXIT_CODES.config;
+  return EXIT_CODES.error;
+}
+
 /**
  * Read a line from stdin, optionally hiding input (for passwords)
  */
@@ -94,6 +173,12 @@ function formatPrice(price: { amount: number; currencyCode: string } | null | un
   return `£${price.amount.toFixed(2)}`;
 }
 
+/** The estimated price and weight range of a weighed product, e.g. "Est. £4.28 - £5.23 for 450g - 550g" */
+function weighedEstimate(product: TrolleyProduct): string {
+  const weight = product.formattedWeightRange ? ` for ${product.formattedWeightRange}` : "";
+  return `Est. ${product.formattedPriceRange}${weight}`;
+}
+
 function formatDate(date: string | null | undefined): string {
   if (!date) return "—";
   return new Date(date).toLocaleString();
@@ -115,12 +200,54 @@ ${colors.bold}AUTHENTICATION${colors.reset}
   logout                       Log out and clear stored credentials
   whoami                       Show current account info
   check                        Check authentication status
+  vault enable [--save-password]
+                               Encrypt stored tokens (and optionally the password)
+  vault disable                Store config as plain JSON again (drops the password)
+  vault status                 Show whether the config is encrypted
+
+${colors.bold}PROFILES${colors.reset}
+  profile list                 List profiles (* marks the active one)
+  profile use <name>           Switch the default profile (creates it if new)
+  profile remove <name>        Delete a profile and its stored credentials
+  profile set <key> [value]    Set a setting for the active profile (see 'config set')
+
+${colors.bold}CONFIG${colors.reset}
+  config get [key]             Show the active profile's settings
+  config set <key> [value]     Change a setting (omit the value to clear it)
+  config path                  Print the config file location
+  config doctor [--fix]        Check the config file and repair problems
+  Credentials stored in: ${CONFIG_FILE}
 
 ${colors.bold}TROLLEY${colors.reset}
   trolley                      View your trolley contents
-  add <lineNumber> [qty]       Add item to trolley (default qty: 1)
+  trolley export               Export the trolley (name, brand, size, qty, prices, promotions, notes)
+    --format csv|json|md|html  Format (default: from --output's extension, else csv)
+    --output <file>            Write to a file instead of stdout
+  trolley snapshot save <name> Save the trolley as a named snapshot
+  trolley snapshot list        List saved snapshots
+  trolley snapshot remove <name>
+                               Delete a snapshot
+  trolley diff <snapshot>      Show lines added, removed or changed since a snapshot
+  trolley restore <snapshot>   Put the trolley back as it was in a snapshot
+  add <lineNumber|name> [qty]  Add item to trolley: 2, x3, 500g or 1.5kg (default: 1, or the usual weight)
+    --first                    For a name, take the top search result
+    --cheapest                 For a name, take the cheapest match
+    --no-substitutes           Don't allow substitutes (also for import and reorder)
   remove <lineNumber>          Remove item from trolley
-  empty                        Empty the entire trolley
+  note <lineNumber> [text]     Set a note for the shopper (no text clears it)
+  substitute <lineNumber|all> on|off
+                               Allow or refuse substitutes for a line, or every line
+  empty                        Empty the entire trolley (restore with 'trolley restore before-empty')
+  import <file|->              Add a shopping list (CSV, JSON or one item per line)
+    --format csv|json|text     Format (default: from the file extension, else text)
+    --dry-run                  Resolve and validate without changing the trolley
+  conflicts                    Explain out of stock and other conflicts in the trolley
+  conflicts remove <lineNumber>
+                               Remove a conflicting line
+  conflicts swap <lineNumber> [replacement]
+                               Swap a line for an alternative (lists suggestions without one)
+  conflicts slot <lineNumber> [date] [--slot <id>]
+                               Book a slot on a date the line can be delivered
 
 ${colors.bold}SEARCH${colors.reset}
   search <term> [-n count]     Search for products
@@ -130,6 +257,10 @@ ${colors.bold}ORDERS${colors.reset}
   orders                       List pending and previous orders
   order <orderId>              View order details
   cancel-order <orderId>       Cancel an order
+  reorder <orderId>            Add a previous order's items to the trolley
+    --replace                  Make the trolley match the order instead of adding to it
+  budget                       Show this week's pending orders and trolley against the budget
+                               (set with 'config set budget <pounds>' and 'config set budget-mode warn|refuse')
 
 ${colors.bold}SLOTS${colors.reset}
   slot                         View currently booked slot
@@ -141,20 +272,38 @@ ${colors.bold}SLOTS${colors.reset}
 ${colors.bold}OTHER${colors.reset}
   campaigns                    List active campaigns
   context                      Show shopping context
+  cache clear                  Delete cached product and campaign data
   help                         Show this help message
   version                      Show version
 
 ${colors.bold}OPTIONS${colors.reset}
   --json                       Output as JSON
+  --debug                      Print requests and responses (redacted) to stderr
+  --no-cache                   Don't read or write cached product/campaign data
+  --profile <name>             Use a named profile for this command
   -n, --count <number>         Limit results (default: 10)
 
 ${colors.bold}ENVIRONMENT${colors.reset}
   WAITROSE_USERNAME            Email for auto-login
   WAITROSE_PASSWORD            Password for auto-login
   WAITROSE_ACCESS_TOKEN        Bearer token (overrides stored token)
-
-${colors.bold}CONFIG${colors.reset}
-  Credentials stored in: ${CONFIG_FILE}
+  WAITROSE_API_ORIGIN          Send requests to another origin (proxy or mock server)
+  WAITROSE_CONFIG_DIR          Config directory (default: ~/.waitrose)
+  WAITROSE_RECORD              Record sanitized request/response fixtures to a file
+  WAITROSE_VALIDATE            Check API responses: strict (fail) or lenient (warn)
+  WAITROSE_DEBUG               Same as --debug
+  WAITROSE_NO_CACHE            Same as --no-cache
+  WAITROSE_VAULT_PASSPHRASE    Passphrase for an encrypted config (prompts if unset)
+  WAITROSE_PROFILE             Profile to use (same as --profile)
+
+${colors.bold}EXIT CODES${colors.reset}
+  1  General error            2  Not authenticated / session expired
+  3  HTTP error               4  GraphQL error
+  5  Request rejected by API  6  Trolley conflict
+  7  Network error            8  Request timed out
+  9  Unexpected response shape (WAITROSE_VALIDATE=strict)
+  10 Config file invalid (see 'waitrose config doctor')
+  11 Trolley change refused for going over budget
 `);
 }
 
@@ -184,21 +333,19 @@ async function cmdLogin(args: string[], flags: Record<string, string | boolean>)
     process.exit(1);
   }
 
-  const client = new WaitroseClient();
+  const client = await createClient();
   
   try {
     log("Logging in...");
     const session = await client.login(email, password);
     
-    await saveConfig({
-      accessToken: session.accessToken,
-      refreshToken: session.refreshToken,
-      customerId: session.customerId,
-      customerOrderId: session.customerOrderId,
-      defaultBranchId: session.defaultBranchId,
+    // Keep the profile's preferences, and keep storing the password if the vault already holds one
+    await updateConfig(previous => ({
+      ...client.exportSession(),
       username: email,
-      expiresAt: Date.now() + (session.expiresIn * 1000),
-    });
+      password: previous.password ? password : undefined,
+      preferences: previous.preferences,
+    }));
 
     success(`Logged in as customer ${session.customerId}`);
     log(`  Order ID: ${session.customerOrderId}`);
@@ -253,6 +400,7 @@ async function cmdCheck() {
   const config = await loadConfig();
   
   header("Authentication Status");
+  log(`  Profile: ${await getActiveProfile()}`);
   
   if (config.accessToken) {
     const expired = config.expiresAt ? Date.now() > config.expiresAt : false;
@@ -279,9 +427,343 @@ async function cmdCheck() {
 
   header("Config Location");
   log(`  ${CONFIG_FILE}`);
+  log(`  Storage: ${await isVaultEnabled() ? "encrypted vault" : "plain JSON (owner-only permissions)"}`);
+}
+
+/** Product line numbers, as opposed to names to search for */
+const LINE_NUMBER = /^\d{6}$/;
+
+// Profile settings that `waitrose profile set` and `waitrose config get|set` work with
+const PROFILE_SETTINGS: Record<string, {
+  describe: string;
+  get: (config: WaitroseConfig) => string | undefined;
+  apply: (config: WaitroseConfig, value: string | undefined) => void;
+}> = {
+  username: {
+    describe: "Account email used to log in again when the session expires",
+    get: config => config.username,
+    apply: (config, value) => { config.username = value; },
+  },
+  address: {
+    describe: "Delivery address ID used for slots",
+    get: config => config.addressId,
+    apply: (config, value) => { config.addressId = value; },
+  },
+  "slot-type": {
+    describe: "Default slot type (delivery or collection)",
+    get: config => config.preferences?.slotType,
+    apply: (config, value) => {
+      if (value !== undefined && value !== "delivery" && value !== "collection") {
+        throw new Error("slot-type must be 'delivery' or 'collection'");
+      }
+      config.preferences = { ...config.preferences, slotType: value };
+    },
+  },
+  postcode: {
+    describe: "Postcode used to look up the current slot",
+    get: config => config.preferences?.postcode,
+    apply: (config, value) => { config.preferences = { ...config.preferences, postcode: value }; },
+  },
+  favourites: {
+    describe: "Line numbers preferred by 'add <name>' (comma-separated)",
+    get: config => config.preferences?.favourites?.join(","),
+    apply: (config, value) => {
+      const favourites = value?.split(",").map(f => f.trim()).filter(Boolean);
+      const invalid = favourites?.find(f => !LINE_NUMBER.test(f));
+      if (invalid) throw new Error(`Invalid line number in favourites: ${invalid}`);
+      config.preferences = { ...config.preferences, favourites };
+    },
+  },
+  budget: {
+    describe: "Weekly spending limit in pounds, including pending orders",
+    get: config => config.preferences?.budget?.toFixed(2),
+    apply: (config, value) => {
+      const budget = value === undefined ? undefined : Number(value.replace(/^£/, ""));
+      if (budget !== undefined && !(budget > 0 && Number.isFinite(budget))) {
+        throw new Error(`Invalid budget: ${value}`);
+      }
+      config.preferences = { ...config.preferences, budget };
+    },
+  },
+  "budget-mode": {
+    describe: "What going over budget does (warn or refuse)",
+    get: config => config.preferences?.budgetMode,
+    apply: (config, value) => {
+      if (value !== undefined && value !== "warn" && value !== "refuse") {
+        throw new Error("budget-mode must be 'warn' or 'refuse'");
+      }
+      config.preferences = { ...config.preferences, budgetMode: value };
+    },
+  },
+};
+
+async function cmdProfile(args: string[], flags: Record<string, string | boolean>) {
+  const subcommand = args[0] || "list";
+  const json = flags.json === true;
+
+  switch (subcommand) {
+    case "list": {
+      const profiles = await listProfiles();
+      if (json) {
+        log(JSON.stringify(profiles.map(p => ({
+          name: p.name,
+          current: p.current,
+          username: p.config.username ?? null,
+          loggedIn: !!p.config.accessToken,
+        })), null, 2));
+        return;
+      }
+
+      header("Profiles");
+      for (const p of profiles) {
+        const marker = p.current ? `${colors.green}*${colors.reset}` : " ";
+        const who = p.config.username ?? `${colors.dim}not logged in${colors.reset}`;
+        log(`  ${marker} ${colors.bold}${p.name}${colors.reset}  ${who}`);
+      }
+      break;
+    }
+
+    case "use": {
+      const name = args[1];
+      if (!name) {
+        error("Usage: waitrose profile use <name>");
+        process.exit(1);
+      }
+      await useProfile(name);
+      success(`Now using profile '${name}'`);
+      break;
+    }
+
+    case "remove":
+    case "rm": {
+      const name = args[1];
+      if (!name) {
+        error("Usage: waitrose profile remove <name>");
+        process.exit(1);
+      }
+      if (!(await removeProfile(name))) {
+        error(`No profile named '${name}'`);
+        process.exit(1);
+      }
+      success(`Removed profile '${name}'`);
+      break;
+    }
+
+    case "set":
+      await setProfileSetting("profile", args[1], args[2]);
+      break;
+
+    default:
+      error("Usage: waitrose profile list | use <name> | remove <name> | set <key> [value]");
+      process.exit(1);
+  }
+}
+
+/**
+ * Change (or clear, without a value) one of PROFILE_SETTINGS for the active profile
+ */
+async function setProfileSetting(command: string, key: string | undefined, value: string | undefined) {
+  const setting = key ? PROFILE_SETTINGS[key] : undefined;
+  if (!setting) {
+    error(`Usage: waitrose ${command} set <key> [value]`);
+    for (const [name, { describe }] of Object.entries(PROFILE_SETTINGS)) {
+      log(`  ${name.padEnd(12)} ${describe}`);
+    }
+    process.exit(1);
+  }
+
+  await updateConfig(config => {
+    setting.apply(config, value);
+    return config;
+  });
+  success(value === undefined ? `Cleared ${key}` : `Set ${key} to ${value}`);
+}
+
+async function cmdConfig(args: string[], flags: Record<string, string | boolean>) {
+  const subcommand = args[0] || "get";
+  const json = flags.json === true;
+
+  switch (subcommand) {
+    case "path":
+      log(CONFIG_FILE);
+      break;
+
+    case "get": {
+      const key = args[1];
+      if (key && !PROFILE_SETTINGS[key]) {
+        error(`Unknown setting: ${key}. Settings: ${Object.keys(PROFILE_SETTINGS).join(", ")}`);
+        process.exit(1);
+      }
+
+      const config = await loadConfig();
+      if (key) {
+        const value = PROFILE_SETTINGS[key]!.get(config);
+        if (json) log(JSON.stringify(value ?? null));
+        else if (value !== undefined) log(value);
+        break;
+      }
+
+      const values = Object.fromEntries(Object.entries(PROFILE_SETTINGS).map(([name, { get }]) => [name, get(config) ?? null]));
+      if (json) {
+        log(JSON.stringify(values, null, 2));
+        break;
+      }
+      header(`Config (profile: ${await getActiveProfile()})`);
+      for (const [name, value] of Object.entries(values)) {
+        log(`  ${name.padEnd(12)} ${value ?? `${colors.dim}not set${colors.reset}`}`);
+      }
+      break;
+    }
+
+    case "set":
+      await setProfileSetting("config", args[1], args[2]);
+      break;
+
+    case "doctor": {
+      const fix = flags.fix === true;
+      const report = await checkConfig();
+      if (json && !fix) {
+        log(JSON.stringify(report, null, 2));
+        if (report.problems.length > 0) process.exit(EXIT_CODES.config);
+        break;
+      }
+
+      header("Config Doctor");
+      log(`  File: ${report.path}${report.exists ? "" : " (not created yet)"}`);
+      if (report.exists) {
+        log(`  Storage: ${report.encrypted ? "encrypted vault" : "plain JSON"}`);
+        log(`  Version: ${report.version ?? "unknown"}`);
+      }
+
+      if (report.problems.length === 0) {
+        success("No problems found");
+        break;
+      }
+
+      for (const problem of report.problems) {
+        warn(problem);
+      }
+
+      if (!fix) {
+        log("Run 'waitrose config doctor --fix' to repair.");
+        process.exit(EXIT_CODES.config);
+      }
+
+      for (const repair of await repairConfig()) {
+        success(repair);
+      }
+      break;
+    }
+
+    default:
+      error("Usage: waitrose config get [key] | set <key> [value] | path | doctor [--fix]");
+      process.exit(1);
+  }
+}
+
+/**
+ * Prompt for a hidden value, optionally asking twice to confirm it
+ */
+async function promptSecret(label: string, confirm = false): Promise<string> {
+  process.stdout.write(`${label}: `);
+  const value = await readLine(true);
+  console.log();
+
+  if (confirm) {
+    process.stdout.write(`Confirm ${label.toLowerCase()}: `);
+    const again = await readLine(true);
+    console.log();
+    if (again !== value) {
+      error(`${label}s do not match`);
+      process.exit(1);
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Ask the user to pick one of a numbered list; returns the index. Enter picks the first.
+ */
+async function promptChoice(question: string, labels: string[]): Promise<number> {
+  header(question);
+  labels.forEach((label, i) => log(`  ${i + 1}. ${label}`));
+  process.stdout.write(`Choose 1-${labels.length} [1]: `);
+
+  const answer = (await readLine()) || "1";
+  const index = Number(answer) - 1;
+  if (!/^\d+$/.test(answer) || !labels[index]) {
+    error(`Invalid choice: ${answer}`);
+    process.exit(1);
+  }
+  return index;
+}
+
+async function cmdVault(args: string[], flags: Record<string, string | boolean>) {
+  const subcommand = args[0] || "status";
+
+  switch (subcommand) {
+    case "status": {
+      const enabled = await isVaultEnabled();
+      header("Vault");
+      log(`  Encrypted: ${enabled ? "yes" : "no"}`);
+      if (enabled && hasVaultPassphrase()) {
+        const config = await loadConfig();
+        log(`  Password stored: ${config.password ? "yes" : "no"}`);
+      }
+      break;
+    }
+
+    case "enable": {
+      if (!hasVaultPassphrase()) {
+        const passphrase = await promptSecret("Passphrase", true);
+        if (!passphrase) {
+          error("A passphrase is required");
+          process.exit(1);
+        }
+        unlockVault(passphrase);
+      }
+
+      const password = flags["save-password"]
+        ? process.env.WAITROSE_PASSWORD || await promptSecret("Waitrose password")
+        : undefined;
+
+      const config = await updateConfig(current => ({ ...current, password: password ?? current.password }), { vault: true });
+      success(`Config encrypted${config.password ? " (password stored)" : ""}`);
+      if (!process.env.WAITROSE_VAULT_PASSPHRASE) {
+        log("  Set WAITROSE_VAULT_PASSPHRASE for unattended use; otherwise you'll be prompted.");
+      }
+      break;
+    }
+
+    case "disable": {
+      const hadPassword = (await listProfiles()).some(p => p.config.password);
+      await setVaultEnabled(false);
+      success("Config stored as plain JSON");
+      if (hadPassword) {
+        warn("Stored passwords removed");
+      }
+      break;
+    }
+
+    default:
+      error("Usage: waitrose vault enable [--save-password] | disable | status");
+      process.exit(1);
+  }
 }
 
 async function cmdTrolley(args: string[], flags: Record<string, string | boolean>) {
+  switch (args[0]) {
+    case "export":
+      return cmdTrolleyExport(flags);
+    case "snapshot":
+      return cmdTrolleySnapshot(args.slice(1), flags);
+    case "diff":
+      return cmdTrolleyDiff(args.slice(1), flags);
+    case "restore":
+      return cmdTrolleyRestore(args.slice(1), flags);
+  }
+
   const json = flags.json === true;
 
   await withAuth(async (client) => {
@@ -300,12 +782,18 @@ async function cmdTrolley(args: string[], flags: Record<string, string | boolean
       for (const item of trolley.trolley.trolleyItems) {
         const product = trolley.products.find(p => p.lineNumber === item.lineNumber);
         const name = product?.name || item.lineNumber;
-        log(`  ${item.quantity.amount}x ${name} — ${formatPrice(item.totalPrice)}`);
-        log(`     Line: ${item.lineNumber}`);
+        log(`  ${formatQuantity(item.quantity)} ${name} — ${formatPrice(item.totalPrice)}`);
+        if (product?.formattedPriceRange && item.quantity.uom !== "C62") {
+          log(`     ${colors.dim}${weighedEstimate(product)}${colors.reset}`);
+        }
+        log(`     Line: ${item.lineNumber}${item.canSubstitute ? "" : ` · ${colors.yellow}No substitutes${colors.reset}`}`);
+        if (item.noteToShopper) {
+          log(`     Note: ${item.noteToShopper}`);
+        }
       }
 
       header("Totals");
-      log(`  Items: ${(trolley.trolley.trolleyTotals as any).trolleyItemCounts?.noConflicts || trolley.trolley.trolleyItems.length}`);
+      log(`  Items: ${trolley.trolley.trolleyItems.length}`);
       log(`  Subtotal: ${formatPrice(trolley.trolley.trolleyTotals.itemTotalEstimatedCost)}`);
       if (trolley.trolley.trolleyTotals.savingsFromOffers) {
         log(`  Offer savings: ${formatPrice(trolley.trolley.trolleyTotals.savingsFromOffers)}`);
@@ -314,29 +802,316 @@ async function cmdTrolley(args: string[], flags: Record<string, string | boolean
         log(`  myWaitrose savings: ${formatPrice(trolley.trolley.trolleyTotals.savingsFromMyWaitrose)}`);
       }
       log(`  ${colors.bold}Total: ${formatPrice(trolley.trolley.trolleyTotals.totalEstimatedCost)}${colors.reset}`);
+
+      const conflicts = trolley.trolley.conflicts.length;
+      if (conflicts > 0) {
+        log("");
+        warn(`${conflicts} item${conflicts === 1 ? " has a conflict" : "s have conflicts"}; run 'waitrose conflicts' for details`);
+      }
+    }
+  });
+}
+
+async function cmdTrolleyExport(flags: Record<string, string | boolean>) {
+  const output = typeof flags.output === "string" ? flags.output : undefined;
+
+  // Format from --format, then the --output extension, else CSV
+  const extension = output?.toLowerCase().split(".").pop();
+  const format = (typeof flags.format === "string" ? flags.format
+    : extension === "htm" ? "html"
+    : extension === "markdown" ? "md"
+    : EXPORT_FORMATS.includes(extension as ExportFormat) ? extension
+    : "csv") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    error(`Unknown format: ${format}. Use ${EXPORT_FORMATS.join(", ")}.`);
+    process.exit(1);
+  }
+
+  await withAuth(async (client) => {
+    const text = formatTrolleyExport(await client.getTrolley(), format);
+
+    if (output) {
+      await Bun.write(output, text);
+      success(`Exported trolley to ${output}`);
+    } else {
+      process.stdout.write(text);
+    }
+  });
+}
+
+// Snapshots taken automatically before the trolley is emptied or restored
+const BEFORE_EMPTY_SNAPSHOT = "before-empty";
+const BEFORE_RESTORE_SNAPSHOT = "before-restore";
+
+async function snapshotStore(): Promise<SnapshotStore> {
+  return SnapshotStore.forProfile(await getActiveProfile());
+}
+
+function describeLine(line: SnapshotLine): string {
+  return `${formatQuantity(line.quantity)} ${line.name} ${colors.dim}(${line.lineNumber})${colors.reset}`;
+}
+
+function printTrolleyDiff(diff: TrolleyDiff) {
+  for (const line of diff.added) {
+    log(`  ${colors.green}+${colors.reset} ${describeLine(line)}`);
+  }
+  for (const line of diff.removed) {
+    log(`  ${colors.red}-${colors.reset} ${describeLine(line)}`);
+  }
+  for (const { name, lineNumber, from, to } of diff.changed) {
+    const changes: string[] = [];
+    if (from.quantity.amount !== to.quantity.amount || from.quantity.uom !== to.quantity.uom) {
+      changes.push(`quantity ${from.quantity.amount} → ${to.quantity.amount}${to.quantity.uom === from.quantity.uom ? "" : ` ${to.quantity.uom}`}`);
+    }
+    if ((from.noteToShopper ?? "") !== (to.noteToShopper ?? "")) {
+      changes.push(`note "${from.noteToShopper ?? ""}" → "${to.noteToShopper ?? ""}"`);
+    }
+    if (from.canSubstitute !== to.canSubstitute) {
+      changes.push(`substitutes ${from.canSubstitute ? "on" : "off"} → ${to.canSubstitute ? "on" : "off"}`);
+    }
+    log(`  ${colors.yellow}~${colors.reset} ${name} ${colors.dim}(${lineNumber})${colors.reset}: ${changes.join(", ")}`);
+  }
+}
+
+async function cmdTrolleySnapshot(args: string[], flags: Record<string, string | boolean>) {
+  const subcommand = args[0] || "list";
+  const name = args[1];
+  const json = flags.json === true;
+  const store = await snapshotStore();
+
+  switch (subcommand) {
+    case "save": {
+      if (!name) {
+        error("Usage: waitrose trolley snapshot save <name>");
+        process.exit(1);
+      }
+      await withAuth(async (client) => {
+        const snapshot = createSnapshot(name, await client.getTrolley());
+        await store.save(snapshot);
+        success(`Saved ${snapshot.lines.length} line${snapshot.lines.length === 1 ? "" : "s"} as snapshot '${name}'`);
+      });
+      break;
+    }
+
+    case "list": {
+      const snapshots = await store.list((name, err) => {
+        // Keep --json output parseable
+        const message = `Skipped snapshot '${name}': ${err.message}`;
+        if (json) console.error(message);
+        else warn(message);
+      });
+      if (json) {
+        log(JSON.stringify(snapshots.map(s => ({ name: s.name, savedAt: s.savedAt, lines: s.lines.length })), null, 2));
+        return;
+      }
+
+      header("Trolley Snapshots");
+      if (snapshots.length === 0) {
+        log("  No snapshots. Save one with 'waitrose trolley snapshot save <name>'.");
+        return;
+      }
+      for (const snapshot of snapshots) {
+        log(`  ${colors.bold}${snapshot.name}${colors.reset}  ${formatDate(snapshot.savedAt)}  ${snapshot.lines.length} lines`);
+      }
+      break;
+    }
+
+    case "remove": {
+      if (!name) {
+        error("Usage: waitrose trolley snapshot remove <name>");
+        process.exit(1);
+      }
+      if (!(await store.remove(name))) {
+        error(`No snapshot named '${name}'`);
+        process.exit(1);
+      }
+      success(`Removed snapshot '${name}'`);
+      break;
+    }
+
+    default:
+      error("Usage: waitrose trolley snapshot save <name> | list | remove <name>");
+      process.exit(1);
+  }
+}
+
+async function cmdTrolleyDiff(args: string[], flags: Record<string, string | boolean>) {
+  const name = args[0];
+  const json = flags.json === true;
+
+  if (!name) {
+    error("Usage: waitrose trolley diff <snapshot>");
+    process.exit(1);
+  }
+
+  const snapshot = await (await snapshotStore()).load(name);
+
+  await withAuth(async (client) => {
+    const diff = diffTrolley(snapshot, await client.getTrolley());
+
+    if (json) {
+      log(JSON.stringify(diff, null, 2));
+      return;
+    }
+
+    header(`Trolley vs '${name}' (${formatDate(snapshot.savedAt)})`);
+    if (diff.added.length + diff.removed.length + diff.changed.length === 0) {
+      log("  No differences");
+      return;
+    }
+    printTrolleyDiff(diff);
+  });
+}
+
+async function cmdTrolleyRestore(args: string[], flags: Record<string, string | boolean>) {
+  const name = args[0];
+  const json = flags.json === true;
+
+  if (!name) {
+    error("Usage: waitrose trolley restore <snapshot>");
+    process.exit(1);
+  }
+
+  const store = await snapshotStore();
+  const snapshot = await store.load(name);
+
+  await withAuth(async (client) => {
+    const current = await client.getTrolley();
+    const diff = diffTrolley(snapshot, current);
+    const inputs = restoreInputs(diff);
+
+    if (inputs.length === 0) {
+      if (json) log(JSON.stringify(current, null, 2));
+      else success(`Trolley already matches '${name}'`);
+      return;
+    }
+
+    // Keep the current trolley so the restore can itself be undone
+    if (name !== BEFORE_RESTORE_SNAPSHOT) {
+      await store.save(createSnapshot(BEFORE_RESTORE_SNAPSHOT, current));
+    }
+
+    const result = await client.updateTrolleyItems(inputs);
+
+    if (json) {
+      log(JSON.stringify(result, null, 2));
+      return;
     }
+
+    success(`Restored trolley to '${name}'`);
+    printTrolleyDiff({ added: diff.removed, removed: diff.added, changed: diff.changed.map(c => ({ ...c, from: c.to, to: c.from })) });
+    log(`  Total: ${formatPrice(result.trolley.trolleyTotals.totalEstimatedCost)}`);
+    if (name !== BEFORE_RESTORE_SNAPSHOT) {
+      log(`  Undo with 'waitrose trolley restore ${BEFORE_RESTORE_SNAPSHOT}'`);
+    }
+  });
+}
+
+function productLabel(product: SearchProduct): string {
+  return `${product.name} ${product.size ?? ""} — ${product.displayPrice} ${colors.dim}[${product.lineNumber}]${colors.reset}`;
+}
+
+/** Candidates listed when a name is ambiguous */
+const MAX_CHOICES = 5;
+
+/**
+ * The product a resolved name refers to: the clear match, or the shopper's
+ * pick when it's ambiguous. Without a terminal to ask on, ambiguity is an error.
+ */
+async function chooseProduct(term: string, resolution: ProductResolution, interactive: boolean): Promise<SearchProduct> {
+  const { match, ambiguous } = resolution;
+  if (!match) {
+    error(`No products match '${term}'`);
+    process.exit(1);
+  }
+  if (!ambiguous) return match;
+
+  const choices = resolution.candidates.slice(0, MAX_CHOICES);
+  const labels = choices.map(({ product, reasons }) => {
+    const why = reasons.length > 0 ? ` ${colors.dim}(${reasons.join(", ")})${colors.reset}` : "";
+    return `${productLabel(product)}${why}`;
   });
+
+  if (!interactive) {
+    error(`'${term}' matches several products. Pass a line number, --first or --cheapest:`);
+    labels.forEach((label, i) => log(`  ${i + 1}. ${label}`));
+    process.exit(1);
+  }
+
+  return choices[await promptChoice(`Which '${term}'?`, labels)]!.product;
+}
+
+/**
+ * Split `add` arguments into the product and its quantity: a trailing quantity
+ * ("milk 2", "mince 500g", "bananas x3") or a leading one with a unit
+ * ("500g of mince", "1.2kg potatoes"). Words are joined, so names work unquoted.
+ */
+function splitAddArgs(args: string[]): { term: string; quantity: ParsedQuantity | null } {
+  const words = args.flatMap(arg => arg.split(/\s+/)).filter(Boolean);
+
+  const trailing = words.length > 1 ? parseQuantity(words[words.length - 1]!) : null;
+  if (trailing) return { term: words.slice(0, -1).join(" "), quantity: trailing };
+
+  const leading = words.length > 1 ? parseQuantity(words[0]!) : null;
+  if (leading?.uom) {
+    const rest = words[1]?.toLowerCase() === "of" ? words.slice(2) : words.slice(1);
+    return { term: rest.join(" "), quantity: leading };
+  }
+
+  return { term: words.join(" "), quantity: null };
+}
+
+const UNITS_OF_MEASURE: UnitOfMeasure[] = ["C62", "KGM", "GRM"];
+
+function isUnitOfMeasure(value: string): value is UnitOfMeasure {
+  return (UNITS_OF_MEASURE as string[]).includes(value);
 }
 
 async function cmdAdd(args: string[], flags: Record<string, string | boolean>) {
-  const lineNumber = args[0];
-  const quantity = parseInt(args[1] || "1", 10);
-  const uom = (flags.uom as UnitOfMeasure) || "C62";
+  const { term, quantity: parsed } = splitAddArgs(args);
   const json = flags.json === true;
 
-  if (!lineNumber) {
-    error("Usage: waitrose add <lineNumber> [quantity]");
+  if (!term) {
+    error("Usage: waitrose add <lineNumber|name> [quantity: 2, x3, 500g, 1.5kg] [--first|--cheapest]");
     process.exit(1);
   }
+  // --uom still sets the unit of a bare number
+  if (flags.uom !== undefined) {
+    const uom = typeof flags.uom === "string" ? flags.uom.toUpperCase() : "";
+    if (!isUnitOfMeasure(uom)) {
+      error(`--uom must be one of ${UNITS_OF_MEASURE.join(", ")}`);
+      process.exit(1);
+    }
+    if (parsed && !parsed.uom) parsed.uom = uom;
+  }
+
+  const strategy: ResolveStrategy = flags.cheapest === true ? "cheapest" : flags.first === true ? "first" : "rank";
+  const favourites = LINE_NUMBER.test(term) ? [] : (await loadConfig()).preferences?.favourites;
 
   await withAuth(async (client) => {
-    const result = await client.addToTrolley(lineNumber, quantity, uom);
+    let lineNumber = term;
+    if (!LINE_NUMBER.test(term)) {
+      const resolution = await client.resolveProduct(term, { strategy, favourites });
+      const product = await chooseProduct(term, resolution, !json && process.stdin.isTTY === true);
+      lineNumber = product.lineNumber;
+    }
+
+    // Check the quantity against the units the product is sold in
+    const [rules] = await client.getProductsByLineNumbers([lineNumber]);
+    const quantity = resolveQuantity(parsed, rules ?? {});
+
+    const result = flags["no-substitutes"] === true
+      ? await client.updateTrolleyItems([{ lineNumber, quantity, canSubstitute: false }])
+      : await client.addToTrolley(lineNumber, quantity.amount, quantity.uom);
     
     if (json) {
       log(JSON.stringify(result, null, 2));
     } else {
       const product = result.products.find(p => p.lineNumber === lineNumber);
-      success(`Added ${quantity}x ${product?.name || lineNumber} to trolley`);
+      success(`Added ${formatQuantity(quantity)} ${product?.name || lineNumber} to trolley`);
+      if (product?.formattedPriceRange && quantity.uom !== "C62") {
+        log(`  ${colors.dim}${weighedEstimate(product)}${colors.reset}`);
+      }
       log(`  Total: ${formatPrice(result.trolley.trolleyTotals.totalEstimatedCost)}`);
     }
   });
@@ -367,12 +1142,314 @@ async function cmdEmpty(args: string[], flags: Record<string, string | boolean>)
   const json = flags.json === true;
 
   await withAuth(async (client) => {
+    // Emptying can't be undone on the server, so keep a snapshot to restore from
+    const before = await client.getTrolley();
+    if (before.trolley.trolleyItems.length > 0) {
+      await (await snapshotStore()).save(createSnapshot(BEFORE_EMPTY_SNAPSHOT, before));
+    }
+
     const result = await client.emptyTrolley();
     
     if (json) {
       log(JSON.stringify(result, null, 2));
     } else {
       success("Trolley emptied");
+      if (before.trolley.trolleyItems.length > 0) {
+        log(`  Undo with 'waitrose trolley restore ${BEFORE_EMPTY_SNAPSHOT}'`);
+      }
+    }
+  });
+}
+
+async function cmdNote(args: string[], flags: Record<string, string | boolean>) {
+  const [lineNumber, ...words] = args;
+  const note = words.join(" ").trim();
+  const json = flags.json === true;
+
+  if (!lineNumber) {
+    error('Usage: waitrose note <lineNumber> ["<text>"]  (no text clears the note)');
+    process.exit(1);
+  }
+
+  await withAuth(async (client) => {
+    const result = await client.setItemPreferences([lineNumber], { noteToShopper: note });
+
+    if (json) {
+      log(JSON.stringify(result, null, 2));
+    } else {
+      const name = result.products.find(p => p.lineNumber === lineNumber)?.name ?? lineNumber;
+      success(note ? `Note for ${name}: ${note}` : `Cleared the note for ${name}`);
+    }
+  });
+}
+
+const SUBSTITUTE_VALUES: Record<string, boolean> = { on: true, yes: true, off: false, no: false };
+
+async function cmdSubstitute(args: string[], flags: Record<string, string | boolean>) {
+  const [target, value] = args;
+  const allowed = value === undefined ? undefined : SUBSTITUTE_VALUES[value.toLowerCase()];
+  const json = flags.json === true;
+
+  if (!target || allowed === undefined) {
+    error("Usage: waitrose substitute <lineNumber|all> on|off");
+    process.exit(1);
+  }
+
+  await withAuth(async (client) => {
+    const lineNumbers = target === "all" ? null : [target];
+    const result = await client.setItemPreferences(lineNumbers, { canSubstitute: allowed });
+
+    if (json) {
+      log(JSON.stringify(result, null, 2));
+    } else if (lineNumbers) {
+      const name = result.products.find(p => p.lineNumber === target)?.name ?? target;
+      success(`Substitutes ${allowed ? "allowed" : "not allowed"} for ${name}`);
+    } else {
+      const count = result.trolley.trolleyItems.length;
+      success(`Substitutes ${allowed ? "allowed" : "not allowed"} for ${count} item${count === 1 ? "" : "s"}`);
+    }
+  });
+}
+
+const SHOPPING_LIST_FORMATS: ShoppingListFormat[] = ["csv", "json", "text"];
+
+async function cmdImport(args: string[], flags: Record<string, string | boolean>) {
+  const file = args[0];
+  const json = flags.json === true;
+  const dryRun = flags["dry-run"] === true;
+
+  if (!file) {
+    error("Usage: waitrose import <file|-> [--format csv|json|text] [--dry-run]");
+    process.exit(1);
+  }
+
+  // Format from --format, then the file extension; anything else is one item per line
+  const extension = file.toLowerCase().split(".").pop();
+  const format = (typeof flags.format === "string" ? flags.format : extension === "csv" || extension === "json" ? extension : "text") as ShoppingListFormat;
+  if (!SHOPPING_LIST_FORMATS.includes(format)) {
+    error(`Unknown format: ${format}. Use csv, json or text.`);
+    process.exit(1);
+  }
+
+  const source = file === "-" ? Bun.stdin : Bun.file(file);
+  if (file !== "-" && !(await source.exists())) {
+    error(`File not found: ${file}`);
+    process.exit(1);
+  }
+  const parsed = parseShoppingList(await source.text(), format);
+  const errors = parsed.errors;
+  const items = flags["no-substitutes"] === true ? parsed.items.map(item => ({ ...item, canSubstitute: false })) : parsed.items;
+
+  await withAuth(async (client) => {
+    const result = await client.importShoppingList(items, { dryRun });
+    const failures = [...errors, ...result.failures].sort((a, b) => a.row - b.row);
+
+    if (json) {
+      log(JSON.stringify({ ...result, failures }, null, 2));
+    } else {
+      if (result.added.length > 0) {
+        success(`${dryRun ? "Would add" : "Added"} ${result.added.length} item${result.added.length === 1 ? "" : "s"}${dryRun ? "" : " to trolley"}`);
+        for (const item of result.added) {
+          const name = item.productName ?? item.name ?? item.lineNumber;
+          log(`  ${colors.dim}row ${item.row}${colors.reset}  ${formatQuantity({ amount: item.quantity, uom: item.uom })} ${name} ${colors.dim}(${item.lineNumber})${colors.reset}`);
+        }
+      }
+
+      if (result.unresolved.length > 0) {
+        header("Not found");
+        for (const issue of result.unresolved) {
+          warn(`row ${issue.row}: ${issue.item}`);
+        }
+      }
+
+      if (failures.length > 0) {
+        header("Failed");
+        for (const issue of failures) {
+          error(`row ${issue.row}: ${issue.item ? `${issue.item}: ` : ""}${issue.message}`);
+        }
+      }
+
+      if (result.trolley) {
+        log(`\n  Total: ${formatPrice(result.trolley.trolley.trolleyTotals.totalEstimatedCost)}`);
+      }
+    }
+
+    // Partial imports still change the trolley, but scripts should notice the skipped rows
+    if (result.unresolved.length > 0 || failures.length > 0) {
+      process.exit(EXIT_CODES.error);
+    }
+  });
+}
+
+// Subcommands of `conflicts` and the conflict action each one takes
+const CONFLICT_COMMANDS: Record<string, ConflictAction> = {
+  remove: "REMOVE",
+  swap: "SWAP",
+  slot: "CHANGE_SLOT",
+};
+
+/** Actions a conflict can be resolved with, as `conflicts` subcommands */
+function conflictCommands(conflict: TrolleyConflict): string[] {
+  return Object.entries(CONFLICT_COMMANDS)
+    .filter(([, action]) => conflict.resolutionActions.includes(action) && !conflict.prohibitedActions.includes(action))
+    .map(([command]) => command);
+}
+
+function formatSlotTime(slot: Slot): string {
+  const time = (date: string) => new Date(date).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return `${time(slot.startDateTime)}-${time(slot.endDateTime)} ${formatPrice(slot.charge)}`;
+}
+
+async function cmdConflicts(args: string[], flags: Record<string, string | boolean>) {
+  const [command, lineNumber, choice] = args;
+  const json = flags.json === true;
+  const interactive = !json && process.stdin.isTTY === true;
+
+  if (command && (!CONFLICT_COMMANDS[command] || !lineNumber)) {
+    error("Usage: waitrose conflicts [remove|swap|slot <lineNumber>]");
+    process.exit(1);
+  }
+
+  await withAuth(async (client) => {
+    const trolley = await client.getTrolley();
+    const { conflicts, trolleyTotals } = trolley.trolley;
+    const nameOf = (line: string) => trolley.products.find(p => p.lineNumber === line)?.name ?? line;
+
+    if (!command) {
+      if (json) {
+        log(JSON.stringify({ conflicts, counts: trolleyTotals.trolleyItemCounts ?? null }, null, 2));
+        return;
+      }
+      if (conflicts.length === 0) {
+        success("No conflicts in your trolley");
+        return;
+      }
+
+      const counts = trolleyTotals.trolleyItemCounts;
+      header(`Conflicts${counts ? ` (${counts.hardConflicts} hard, ${counts.softConflicts} soft)` : ""}`);
+      for (const conflict of [...conflicts].sort((a, b) => a.priority - b.priority)) {
+        log(`\n  ${colors.bold}${nameOf(conflict.lineNumber)}${colors.reset} ${colors.dim}(${conflict.lineNumber})${colors.reset}`);
+        for (const message of conflict.messages) {
+          warn(message);
+        }
+        if (conflict.slotOptionDates?.length) {
+          log(`    Deliverable on: ${conflict.slotOptionDates.map(d => d.date).join(", ")}`);
+        }
+        for (const fix of conflictCommands(conflict)) {
+          log(`    ${colors.dim}→ waitrose conflicts ${fix} ${conflict.lineNumber}${colors.reset}`);
+        }
+      }
+      return;
+    }
+
+    const conflict = conflicts.find(c => c.lineNumber === lineNumber);
+    const item = trolley.trolley.trolleyItems.find(i => i.lineNumber === lineNumber);
+    if (!conflict || !item) {
+      error(`No conflict for line ${lineNumber}. Run 'waitrose conflicts' to list them.`);
+      process.exit(1);
+    }
+    const line = item.lineNumber;
+    const allowed = conflictCommands(conflict);
+    if (!allowed.includes(command)) {
+      error(`Can't ${command} ${line}; this conflict can be resolved with: ${allowed.join(", ") || "nothing listed"}`);
+      process.exit(1);
+    }
+
+    const report = (result: TrolleyResponse, done: string) => {
+      if (json) {
+        log(JSON.stringify(result, null, 2));
+        return;
+      }
+      success(done);
+      const left = result.trolley.conflicts.length;
+      log(left === 0 ? "  No conflicts left" : `  ${left} conflict${left === 1 ? "" : "s"} left`);
+    };
+
+    switch (command) {
+      case "remove": {
+        const result = await client.updateTrolleyItems([
+          { lineNumber: item.lineNumber, quantity: { amount: 0, uom: item.quantity.uom as UnitOfMeasure } },
+        ]);
+        report(result, `Removed ${nameOf(line)}`);
+        break;
+      }
+
+      case "swap": {
+        let replacement = choice;
+        if (!replacement) {
+          const product = trolley.products.find(p => p.lineNumber === line) ?? { lineNumber: line, name: line };
+          const alternatives = await client.findAlternatives(product);
+          if (alternatives.length === 0) {
+            error(`No alternatives found for ${nameOf(line)}`);
+            process.exit(1);
+          }
+          if (!interactive) {
+            header(`Alternatives to ${nameOf(line)}`);
+            alternatives.forEach((p, i) => log(`  ${i + 1}. ${productLabel(p)}`));
+            log(`\n  Swap with 'waitrose conflicts swap ${line} <line>'`);
+            return;
+          }
+          replacement = alternatives[await promptChoice(`Swap ${nameOf(line)} for`, alternatives.map(productLabel))]!.lineNumber;
+        }
+
+        const result = await client.swapTrolleyItem(item, replacement);
+        const name = result.products.find(p => p.lineNumber === replacement)?.name ?? replacement;
+        report(result, `Swapped ${nameOf(line)} for ${name}`);
+        break;
+      }
+
+      case "slot": {
+        const dates = conflict.slotOptionDates?.map(d => d.date) ?? [];
+        let date = choice;
+        if (!date) {
+          if (dates.length === 0) {
+            error(`No slot dates offered for ${nameOf(line)}`);
+            process.exit(1);
+          }
+          if (!interactive) {
+            header(`${nameOf(line)} can be delivered on`);
+            for (const d of dates) log(`  ${d}`);
+            log(`\n  Pick one with 'waitrose conflicts slot ${line} <date>'`);
+            return;
+          }
+          date = dates[await promptChoice(`Deliver ${nameOf(line)} on`, dates)]!;
+        } else if (dates.length > 0 && !dates.includes(date)) {
+          error(`${nameOf(line)} can't be delivered on ${date}. Dates offered: ${dates.join(", ")}`);
+          process.exit(1);
+        }
+
+        const config = await loadConfig();
+        const slotType = slotTypeFrom(flags, config);
+        const addressId = config.addressId ?? (await client.getAccountInfo()).profile.contactAddress?.id;
+        const slots = (await client.getSlotDays(slotType, date, undefined, addressId))
+          .flatMap(day => day.slots)
+          .filter(slot => slot.status === "AVAILABLE");
+        if (slots.length === 0) {
+          error(`No available ${slotType.toLowerCase()} slots on ${date}`);
+          process.exit(1);
+        }
+
+        let slotId = typeof flags.slot === "string" ? flags.slot : undefined;
+        if (!slotId) {
+          if (!interactive) {
+            header(`Available slots on ${date}`);
+            for (const slot of slots) log(`  ${formatSlotTime(slot)} [${slot.id}]`);
+            log(`\n  Book with 'waitrose conflicts slot ${line} ${date} --slot <slotId>'`);
+            return;
+          }
+          slotId = slots[await promptChoice(`Slots on ${date}`, slots.map(formatSlotTime))]!.id;
+        }
+
+        const booked = await client.bookSlot(slotId, slotType, addressId);
+        const result = await client.getTrolley();
+        if (json) {
+          log(JSON.stringify({ booking: booked, trolley: result }, null, 2));
+        } else {
+          report(result, `Slot booked on ${date}`);
+          log(`  Order cutoff: ${formatDate(booked.orderCutoffDateTime)}`);
+        }
+        break;
+      }
     }
   });
 }
@@ -495,6 +1572,10 @@ async function cmdOrder(args: string[], flags: Record<string, string | boolean>)
 
   await withAuth(async (client) => {
     const order = await client.getOrder(orderId);
+    if (!order) {
+      error(`Order ${orderId} not found`);
+      process.exit(1);
+    }
     
     // Fetch product names for all line numbers
     const lineNumbers = order.orderLines.map(line => line.lineNumber);
@@ -565,9 +1646,103 @@ async function cmdCancelOrder(args: string[], flags: Record<string, string | boo
   });
 }
 
+/**
+ * Slot type from --type, then the profile's preference, then delivery
+ */
+function slotTypeFrom(flags: Record<string, string | boolean>, config: WaitroseConfig): SlotType {
+  const type = (typeof flags.type === "string" ? flags.type : undefined) || config.preferences?.slotType || "delivery";
+  return type.toUpperCase() as SlotType;
+}
+
+async function cmdReorder(args: string[], flags: Record<string, string | boolean>) {
+  const orderId = args[0];
+  const json = flags.json === true;
+  const mode = flags.replace === true ? "replace" : "merge";
+
+  if (!orderId) {
+    error("Usage: waitrose reorder <orderId> [--replace]");
+    process.exit(1);
+  }
+
+  await withAuth(async (client) => {
+    const result = await client.reorder(orderId, { mode, canSubstitute: flags["no-substitutes"] === true ? false : undefined });
+
+    if (json) {
+      log(JSON.stringify(result, null, 2));
+    } else {
+      const names = new Map(result.trolley.products.map(p => [p.lineNumber, p.name]));
+
+      if (result.added.length > 0) {
+        success(`${mode === "replace" ? "Set" : "Added"} ${result.added.length} item${result.added.length === 1 ? "" : "s"} from order ${orderId}`);
+        for (const input of result.added) {
+          log(`  ${formatQuantity(input.quantity)} ${names.get(input.lineNumber) ?? input.lineNumber} ${colors.dim}(${input.lineNumber})${colors.reset}`);
+        }
+      }
+
+      if (result.removed.length > 0) {
+        header("Removed");
+        for (const lineNumber of result.removed) {
+          log(`  ${lineNumber}`);
+        }
+      }
+
+      if (result.skipped.length > 0) {
+        header("Not added");
+        for (const line of result.skipped) {
+          warn(`${line.lineNumber}: ${line.message}`);
+        }
+      }
+
+      log(`\n  Total: ${formatPrice(result.trolley.trolley.trolleyTotals.totalEstimatedCost)}`);
+    }
+
+    // Like import, a partial reorder still changes the trolley but exits non-zero
+    if (result.skipped.length > 0) {
+      process.exit(EXIT_CODES.error);
+    }
+  });
+}
+
+async function cmdBudget(args: string[], flags: Record<string, string | boolean>) {
+  const json = flags.json === true;
+  const preferences = (await loadConfig()).preferences ?? {};
+
+  if (!preferences.budget) {
+    error("No budget set. Set one with 'waitrose config set budget <pounds>'.");
+    process.exit(1);
+  }
+  const weeklyLimit = preferences.budget;
+
+  await withAuth(async (client) => {
+    const status = await client.getBudgetStatus(weeklyLimit);
+
+    if (json) {
+      log(JSON.stringify({ ...status, mode: preferences.budgetMode ?? "warn" }, null, 2));
+      return;
+    }
+
+    const money = (amount: number) => formatPrice({ amount, currencyCode: "GBP" });
+    header(`Budget for the week of ${new Date(status.weekStart).toLocaleDateString("en-GB", { day: "numeric", month: "long" })}`);
+    log(`  Weekly limit: ${money(status.weeklyLimit)} ${colors.dim}(${preferences.budgetMode ?? "warn"} when over)${colors.reset}`);
+    log(`  Pending orders: ${money(status.committed)}`);
+    for (const order of status.pendingOrders) {
+      const delivery = order.slots[0]?.startDateTime;
+      log(`    ${order.customerOrderId}  ${formatDate(delivery)}  ${formatPrice(order.totals.estimated.totalPrice)}`);
+    }
+    log(`  Trolley: ${money(status.trolley)}`);
+
+    if (status.exceeded) {
+      log(`  ${colors.red}Over budget by ${money(-status.remaining)}${colors.reset}`);
+    } else {
+      log(`  ${colors.green}Remaining: ${money(status.remaining)}${colors.reset}`);
+    }
+  });
+}
+
 async function cmdSlot(args: string[], flags: Record<string, string | boolean>) {
   const json = flags.json === true;
-  const postcode = flags.postcode as string;
+  const config = await loadConfig();
+  const postcode = (flags.postcode as string) || config.preferences?.postcode;
 
   await withAuth(async (client) => {
     const slot = await client.getCurrentSlot(postcode);
@@ -593,13 +1768,13 @@ async function cmdSlot(args: string[], flags: Record<string, string | boolean>)
 
 async function cmdSlots(args: string[], flags: Record<string, string | boolean>) {
   const json = flags.json === true;
-  const slotType = (flags.type as SlotType) || "DELIVERY";
+  const config = await loadConfig();
+  const slotType = slotTypeFrom(flags, config);
   const days = parseInt(flags.days as string || "7", 10);
 
   await withAuth(async (client) => {
-    // Get user's address ID for delivery slot lookup
-    const { profile } = await client.getAccountInfo();
-    const addressId = profile.contactAddress?.id;
+    // Use the profile's address, or the account's contact address for delivery slot lookup
+    const addressId = config.addressId ?? (await client.getAccountInfo()).profile.contactAddress?.id;
     
     // First get available dates
     const dates = await client.getSlotDates(slotType, undefined, addressId);
@@ -616,12 +1791,11 @@ async function cmdSlots(args: string[], flags: Record<string, string | boolean>)
     // Limit dates to requested number of days
     const datesToFetch = dates.slice(0, days);
     
-    // Fetch slot days for each available date (API returns one day per call)
-    const slotDays: Awaited<ReturnType<typeof client.getSlotDays>> = [];
-    for (const date of datesToFetch) {
-      const daySlots = await client.getSlotDays(slotType, date.id, undefined, addressId);
-      slotDays.push(...daySlots);
-    }
+    // Fetch slot days for each available date (API returns one day per call);
+    // the client's rate limiter keeps the fan-out polite
+    const slotDays = (await Promise.all(
+      datesToFetch.map(date => client.getSlotDays(slotType, date.id, undefined, addressId))
+    )).flat();
     
     if (json) {
       log(JSON.stringify({ dates, slotDays }, null, 2));
@@ -655,8 +1829,9 @@ async function cmdSlots(args: string[], flags: Record<string, string | boolean>)
 
 async function cmdBookSlot(args: string[], flags: Record<string, string | boolean>) {
   const slotId = args[0];
-  const slotType = (flags.type as SlotType) || "DELIVERY";
-  const addressId = flags.address as string;
+  const config = await loadConfig();
+  const slotType = slotTypeFrom(flags, config);
+  const addressId = (flags.address as string) || config.addressId;
   const json = flags.json === true;
 
   if (!slotId) {
@@ -705,6 +1880,21 @@ async function cmdCampaigns(args: string[], flags: Record<string, string | boole
   });
 }
 
+async function cmdCache(args: string[]) {
+  const subcommand = args[0];
+
+  if (subcommand !== "clear") {
+    error("Usage: waitrose cache clear");
+    process.exit(1);
+  }
+
+  const cache = FileCache.forProfile(await getActiveProfile());
+  await cache.invalidate();
+  // Entries written before the cache was split by profile
+  await new FileCache(CACHE_DIR).invalidate();
+  success(`Cleared cache in ${cache.dir}`);
+}
+
 async function cmdContext(args: string[], flags: Record<string, string | boolean>) {
   const json = flags.json === true;
 
@@ -768,9 +1958,37 @@ function parseArgs(argv: string[]): { command: string; args: string[]; flags: Re
 // =============================================================================
 
 async function main() {
-  const { command, args, flags } = parseArgs(process.argv.slice(2));
+  // --debug, --no-cache and --profile are global and may appear anywhere, including before the command
+  const argv = process.argv.slice(2);
+  if (argv.includes("--debug")) {
+    process.env.WAITROSE_DEBUG = "1";
+  }
+  if (argv.includes("--no-cache")) {
+    process.env.WAITROSE_NO_CACHE = "1";
+  }
+  const profileIndex = argv.indexOf("--profile");
+  if (profileIndex !== -1) {
+    const profile = argv[profileIndex + 1];
+    if (!profile || profile.startsWith("-")) {
+      error("Usage: waitrose --profile <name> <command>");
+      process.exit(1);
+    }
+    process.env.WAITROSE_PROFILE = profile;
+    argv.splice(profileIndex, 2);
+  }
+  const { command, args, flags } = parseArgs(argv.filter(arg => arg !== "--debug" && arg !== "--no-cache"));
 
   try {
+    // The profile names directories, so reject a bad one before any command runs
+    if (process.env.WAITROSE_PROFILE) checkProfileName(process.env.WAITROSE_PROFILE);
+
+    // Unlock an encrypted config up front so commands can read and write it
+    const needsConfig = !["help", "--help", "-h", "version", "--version", "-v"].includes(command);
+    // A corrupt file is reported by the command itself (or repaired by `config doctor`)
+    if (needsConfig && !hasVaultPassphrase() && process.stdin.isTTY && await isVaultEnabled().catch(() => false)) {
+      unlockVault(await promptSecret("Vault passphrase"));
+    }
+
     switch (command) {
       case "help":
       case "--help":
@@ -794,6 +2012,15 @@ async function main() {
       case "check":
         await cmdCheck();
         break;
+      case "vault":
+        await cmdVault(args, flags);
+        break;
+      case "profile":
+        await cmdProfile(args, flags);
+        break;
+      case "config":
+        await cmdConfig(args, flags);
+        break;
       case "trolley":
       case "cart":
         await cmdTrolley(args, flags);
@@ -809,6 +2036,19 @@ async function main() {
       case "clear":
         await cmdEmpty(args, flags);
         break;
+      case "import":
+        await cmdImport(args, flags);
+        break;
+      case "note":
+        await cmdNote(args, flags);
+        break;
+      case "substitute":
+      case "sub":
+        await cmdSubstitute(args, flags);
+        break;
+      case "conflicts":
+        await cmdConflicts(args, flags);
+        break;
       case "search":
         await cmdSearch(args, flags);
         break;
@@ -824,6 +2064,12 @@ async function main() {
       case "cancel-order":
         await cmdCancelOrder(args, flags);
         break;
+      case "reorder":
+        await cmdReorder(args, flags);
+        break;
+      case "budget":
+        await cmdBudget(args, flags);
+        break;
       case "slot":
         await cmdSlot(args, flags);
         break;
@@ -839,6 +2085,9 @@ async function main() {
       case "context":
         await cmdContext(args, flags);
         break;
+      case "cache":
+        await cmdCache(args);
+        break;
       default:
         error(`Unknown command: ${command}`);
         log("Run 'waitrose help' for usage.");
@@ -846,7 +2095,7 @@ async function main() {
     }
   } catch (err) {
     error(err instanceof Error ? err.message : String(err));
-    process.exit(1);
+    process.exit(exitCodeFor(err));
   }
 }
 
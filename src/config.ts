@@ -1,53 +1,631 @@
 /**
  * Config management for Waitrose CLI
- * Stores credentials and tokens in ~/.config/waitrose/config.json
+ * Stores credentials and tokens for one or more named profiles in
+ * ~/.waitrose/config.json, readable only by the owner, optionally encrypted
+ * with a passphrase (vault mode). Updates are serialized across processes
+ * with a lock file next to the config.
+ *
+ * The file records its schema version. Older files are migrated when read
+ * and written back in the current format on the next save; files that fail
+ * validation raise ConfigError rather than being treated as empty.
  */
 
+import { AsyncLocalStorage } from "async_hooks";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { chmod, mkdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
 import { homedir } from "os";
-import { join } from "path";
+import { dirname, join } from "path";
 
-const CONFIG_DIR = join(homedir(), ".waitrose");
+const CONFIG_DIR = process.env.WAITROSE_CONFIG_DIR || join(homedir(), ".waitrose");
 const CONFIG_FILE = join(CONFIG_DIR, "config.json");
+const LOCK_FILE = `${CONFIG_FILE}.lock`;
 
+// How long to wait for another process to release the lock. Long enough to
+// cover a login, which is the slowest thing done while holding it.
+const LOCK_TIMEOUT_MS = 60_000;
+// A lock older than this is assumed to be left behind by a crashed process
+const LOCK_STALE_MS = 120_000;
+const LOCK_RETRY_MS = 50;
+
+export const DEFAULT_PROFILE = "default";
+
+/**
+ * Thrown when the config file can't be read: invalid JSON, unexpected field
+ * types, or a version written by a newer release
+ */
+export class ConfigError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/** Per-profile defaults for commands */
+export interface ProfilePreferences {
+  /** Slot type used by slot commands when --type isn't given */
+  slotType?: "delivery" | "collection";
+  /** Postcode used to look up the current slot */
+  postcode?: string;
+  /** Line numbers preferred when adding products by name */
+  favourites?: string[];
+  /** Weekly spending limit in pounds, counting pending orders and the trolley */
+  budget?: number;
+  /** Whether going over the budget warns (the default) or refuses the change */
+  budgetMode?: "warn" | "refuse";
+}
+
+/** Everything stored for one profile */
 export interface WaitroseConfig {
   accessToken?: string;
   refreshToken?: string;
   customerId?: string;
   customerOrderId?: string;
   defaultBranchId?: string;
+  /** Delivery address used when booking slots */
+  addressId?: string;
   username?: string;
+  /** Only ever written to disk inside an encrypted vault */
+  password?: string;
   expiresAt?: number; // Unix timestamp
+  preferences?: ProfilePreferences;
+}
+
+/** The whole config file (decrypted) */
+interface ConfigFile {
+  version?: number;
+  /** Profile used when neither --profile nor WAITROSE_PROFILE is set */
+  currentProfile?: string;
+  profiles: Record<string, WaitroseConfig>;
+}
+
+/** Encrypted config as stored on disk in vault mode */
+interface VaultFile {
+  vault: {
+    version: 1;
+    kdf: "scrypt";
+    salt: string;
+    iv: string;
+    tag: string;
+    data: string;
+  };
 }
 
-async function ensureConfigDir(): Promise<void> {
-  const dir = Bun.file(CONFIG_DIR);
+// Passphrase for the vault, from the environment or set by the CLI after prompting
+let vaultPassphrase: string | undefined = process.env.WAITROSE_VAULT_PASSPHRASE || undefined;
+
+/**
+ * Provide the passphrase used to read and write an encrypted config
+ */
+export function unlockVault(passphrase: string): void {
+  vaultPassphrase = passphrase;
+}
+
+export function hasVaultPassphrase(): boolean {
+  return !!vaultPassphrase;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+function encrypt(config: ConfigFile, passphrase: string): VaultFile {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(config), "utf8"), cipher.final()]);
+
+  return {
+    vault: {
+      version: 1,
+      kdf: "scrypt",
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    },
+  };
+}
+
+function decrypt(file: VaultFile, passphrase: string): unknown {
+  const { salt, iv, tag, data } = file.vault;
+  const decipher = createDecipheriv("aes-256-gcm", deriveKey(passphrase, Buffer.from(salt, "base64")), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+
   try {
-    await Bun.$`mkdir -p ${CONFIG_DIR}`;
+    const text = Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf8");
+    return JSON.parse(text);
   } catch {
-    // Directory might already exist
+    throw new Error("Could not decrypt config: wrong vault passphrase");
+  }
+}
+
+function isVaultFile(value: unknown): value is VaultFile {
+  return !!value && typeof value === "object" && "vault" in value;
+}
+
+// Each migration upgrades a file from the version at its index to the next one
+const MIGRATIONS: Array<(file: Record<string, unknown>) => Record<string, unknown>> = [
+  // 0 → 1: files written before profiles existed hold a single identity, which becomes the default profile
+  legacy => ({ profiles: Object.keys(legacy).length > 0 ? { [DEFAULT_PROFILE]: legacy } : {} }),
+  // 1 → 2: files record their schema version
+  file => ({ ...file, version: 2 }),
+];
+
+export const CONFIG_VERSION = MIGRATIONS.length;
+
+const STRING_FIELDS = [
+  "accessToken", "refreshToken", "customerId", "customerOrderId",
+  "defaultBranchId", "addressId", "username", "password",
+] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  return value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+}
+
+/**
+ * Schema version of a decrypted file. Files without one predate versioning:
+ * version 1 if they already hold profiles, otherwise 0.
+ */
+function detectVersion(file: Record<string, unknown>): number {
+  if ("version" in file) return Number.isInteger(file.version) ? file.version as number : -1;
+  return "profiles" in file ? 1 : 0;
+}
+
+/**
+ * Keep the valid fields of a stored profile, recording an issue for each one dropped
+ */
+function parseProfile(name: string, value: unknown, issues: string[]): WaitroseConfig {
+  const path = `profiles.${name}`;
+  if (!isRecord(value)) {
+    issues.push(`${path}: expected object, got ${describeType(value)}`);
+    return {};
+  }
+
+  const config: WaitroseConfig = {};
+  for (const field of STRING_FIELDS) {
+    const v = value[field];
+    if (v === undefined) continue;
+    if (typeof v === "string") config[field] = v;
+    else issues.push(`${path}.${field}: expected string, got ${describeType(v)}`);
+  }
+
+  if (value.expiresAt !== undefined) {
+    if (typeof value.expiresAt === "number") config.expiresAt = value.expiresAt;
+    else issues.push(`${path}.expiresAt: expected number, got ${describeType(value.expiresAt)}`);
+  }
+
+  if (value.preferences !== undefined) {
+    const prefs = value.preferences;
+    if (!isRecord(prefs)) {
+      issues.push(`${path}.preferences: expected object, got ${describeType(prefs)}`);
+    } else {
+      const preferences: ProfilePreferences = {};
+      if (prefs.slotType === "delivery" || prefs.slotType === "collection") preferences.slotType = prefs.slotType;
+      else if (prefs.slotType !== undefined) issues.push(`${path}.preferences.slotType: expected "delivery" or "collection", got ${JSON.stringify(prefs.slotType)}`);
+      if (typeof prefs.postcode === "string") preferences.postcode = prefs.postcode;
+      else if (prefs.postcode !== undefined) issues.push(`${path}.preferences.postcode: expected string, got ${describeType(prefs.postcode)}`);
+      if (Array.isArray(prefs.favourites) && prefs.favourites.every(f => typeof f === "string")) preferences.favourites = prefs.favourites;
+      else if (prefs.favourites !== undefined) issues.push(`${path}.preferences.favourites: expected array of strings, got ${describeType(prefs.favourites)}`);
+      if (typeof prefs.budget === "number" && prefs.budget > 0) preferences.budget = prefs.budget;
+      else if (prefs.budget !== undefined) issues.push(`${path}.preferences.budget: expected positive number, got ${JSON.stringify(prefs.budget)}`);
+      if (prefs.budgetMode === "warn" || prefs.budgetMode === "refuse") preferences.budgetMode = prefs.budgetMode;
+      else if (prefs.budgetMode !== undefined) issues.push(`${path}.preferences.budgetMode: expected "warn" or "refuse", got ${JSON.stringify(prefs.budgetMode)}`);
+      config.preferences = preferences;
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Migrate a decrypted file to the current version and validate it. Invalid
+ * fields are left out of the result and listed in `issues`.
+ */
+function parseConfigFile(stored: unknown): { file: ConfigFile; version: number; issues: string[] } {
+  const issues: string[] = [];
+  if (!isRecord(stored)) {
+    return { file: { profiles: {} }, version: CONFIG_VERSION, issues: [`expected an object, got ${describeType(stored)}`] };
+  }
+
+  let version = detectVersion(stored);
+  if (version > CONFIG_VERSION) {
+    throw new ConfigError(`${CONFIG_FILE} was written by a newer version of waitrose (config version ${version}; this version supports ${CONFIG_VERSION}). Upgrade waitrose to use it.`);
+  }
+  if (version < 0) {
+    issues.push(`version: expected integer, got ${JSON.stringify(stored.version)}`);
+    version = CONFIG_VERSION;
+  }
+
+  let migrated = stored;
+  for (let v = version; v < CONFIG_VERSION; v++) {
+    migrated = MIGRATIONS[v]!(migrated);
+  }
+
+  const file: ConfigFile = { version: CONFIG_VERSION, profiles: {} };
+  if (typeof migrated.currentProfile === "string") file.currentProfile = migrated.currentProfile;
+  else if (migrated.currentProfile !== undefined) issues.push(`currentProfile: expected string, got ${describeType(migrated.currentProfile)}`);
+
+  if (isRecord(migrated.profiles)) {
+    for (const [name, value] of Object.entries(migrated.profiles)) {
+      file.profiles[name] = parseProfile(name, value, issues);
+    }
+  } else {
+    issues.push(`profiles: expected object, got ${describeType(migrated.profiles)}`);
+  }
+
+  return { file, version, issues };
+}
+
+/**
+ * Read the config file as stored, without decrypting it. A missing file reads as empty.
+ */
+async function readStoredFile(): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(CONFIG_FILE, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw error;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`${CONFIG_FILE} is not valid JSON (${reason}). Run 'waitrose config doctor --fix' to repair it.`, [reason]);
+  }
+}
+
+function decryptStored(stored: unknown): unknown {
+  if (!isVaultFile(stored)) return stored;
+  if (!vaultPassphrase) {
+    throw new Error("Config is encrypted. Set WAITROSE_VAULT_PASSPHRASE or run the command interactively.");
+  }
+  return decrypt(stored, vaultPassphrase);
+}
+
+/**
+ * Read, decrypt, migrate and validate the whole config file
+ */
+async function readConfigFile(): Promise<ConfigFile> {
+  const { file, issues } = parseConfigFile(decryptStored(await readStoredFile()));
+  if (issues.length > 0) {
+    throw new ConfigError(
+      `${CONFIG_FILE} is invalid:\n  ${issues.join("\n  ")}\nRun 'waitrose config doctor --fix' to repair it.`,
+      issues
+    );
+  }
+  return file;
+}
+
+/**
+ * Write the whole config file, keeping the current storage mode unless `vault` says otherwise.
+ * Passwords are dropped unless the config is encrypted.
+ */
+async function writeConfigFile(file: ConfigFile, vault?: boolean): Promise<void> {
+  const encrypted = vault ?? await isVaultEnabled();
+
+  if (!encrypted) {
+    const profiles = Object.fromEntries(
+      Object.entries(file.profiles).map(([name, { password: _password, ...rest }]) => [name, rest])
+    );
+    await writePrivateFile(CONFIG_FILE, JSON.stringify({ ...file, version: CONFIG_VERSION, profiles }, null, 2));
+    return;
+  }
+
+  if (!vaultPassphrase) {
+    throw new Error("Config is encrypted. Set WAITROSE_VAULT_PASSPHRASE or run the command interactively.");
+  }
+  await writePrivateFile(CONFIG_FILE, JSON.stringify(encrypt({ ...file, version: CONFIG_VERSION }, vaultPassphrase), null, 2));
+}
+
+/**
+ * Write a file readable only by the owner, replacing any existing file atomically
+ */
+export async function writePrivateFile(path: string, contents: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+
+  const tmp = `${path}.${process.pid}.tmp`;
+  try {
+    await writeFile(tmp, contents, { mode: 0o600 });
+    await rename(tmp, path);
+  } catch (error) {
+    await rm(tmp, { force: true });
+    throw error;
   }
 }
 
-export async function loadConfig(): Promise<WaitroseConfig> {
+// Set while the current async call chain holds the lock, so nested updates don't wait on themselves
+const lockHeld = new AsyncLocalStorage<boolean>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a lock file was left behind by a process that no longer exists
+ */
+async function isStaleLock(): Promise<boolean> {
   try {
-    const file = Bun.file(CONFIG_FILE);
-    if (await file.exists()) {
-      const text = await file.text();
-      return JSON.parse(text);
+    const [contents, info] = await Promise.all([readFile(LOCK_FILE, "utf8"), stat(LOCK_FILE)]);
+    if (Date.now() - info.mtimeMs > LOCK_STALE_MS) return true;
+
+    const { pid } = JSON.parse(contents) as { pid?: number };
+    if (typeof pid !== "number") return false;
+    process.kill(pid, 0);
+    return false;
+  } catch (error) {
+    // ESRCH: the owner has exited. Anything else (lock just released, or
+    // still being written) is retried.
+    return (error as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
+
+/**
+ * Take the lock, returning the contents written to the lock file so the
+ * owner can recognise it when releasing
+ */
+async function acquireLock(): Promise<string> {
+  await mkdir(CONFIG_DIR, { recursive: true, mode: 0o700 });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  const contents = JSON.stringify({ pid: process.pid, createdAt: Date.now(), id: randomBytes(8).toString("hex") });
+
+  for (;;) {
+    try {
+      await writeFile(LOCK_FILE, contents, { flag: "wx", mode: 0o600 });
+      return contents;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    if (await isStaleLock()) {
+      await rm(LOCK_FILE, { force: true });
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${LOCK_FILE}. Remove it if no other waitrose command is running.`);
     }
+    await sleep(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Remove the lock file if it's still ours. Another process may have taken it
+ * over as stale while this one was working.
+ */
+async function releaseLock(contents: string): Promise<void> {
+  const current = await readFile(LOCK_FILE, "utf8").catch(() => null);
+  if (current === contents) await rm(LOCK_FILE, { force: true });
+}
+
+/**
+ * Run `fn` while holding the config lock, so no other waitrose process can
+ * update the config (or re-authenticate) until it finishes. Re-entrant.
+ */
+export async function withConfigLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (lockHeld.getStore()) return fn();
+
+  const contents = await acquireLock();
+  try {
+    return await lockHeld.run(true, fn);
+  } finally {
+    await releaseLock(contents);
+  }
+}
+
+/**
+ * Whether the stored config is encrypted
+ */
+export async function isVaultEnabled(): Promise<boolean> {
+  return isVaultFile(await readStoredFile());
+}
+
+/**
+ * Check a profile name is safe to use as a directory name for its cache and snapshots
+ */
+export function checkProfileName(name: string): string {
+  if (!/^[\w.-]+$/.test(name) || name === "." || name === "..") {
+    throw new ConfigError(`Invalid profile name '${name}': use letters, digits, '_', '-' and '.'`);
+  }
+  return name;
+}
+
+/**
+ * Pick the profile to use: an explicit name, then WAITROSE_PROFILE (set by
+ * --profile), then the profile chosen with `waitrose profile use`, then "default"
+ */
+function resolveProfile(file: ConfigFile, profile?: string): string {
+  return checkProfileName(profile || process.env.WAITROSE_PROFILE || file.currentProfile || DEFAULT_PROFILE);
+}
+
+/**
+ * The name of the active profile
+ */
+export async function getActiveProfile(): Promise<string> {
+  return resolveProfile(await readConfigFile());
+}
+
+/**
+ * Load the config for a profile (default: the active profile)
+ */
+export async function loadConfig(profile?: string): Promise<WaitroseConfig> {
+  const file = await readConfigFile();
+  return file.profiles[resolveProfile(file, profile)] ?? {};
+}
+
+/**
+ * Save the config for a profile (default: the active profile), leaving other profiles untouched.
+ * `vault` switches the whole file between plain and encrypted storage.
+ */
+export async function saveConfig(config: WaitroseConfig, options: { vault?: boolean; profile?: string } = {}): Promise<void> {
+  await updateConfig(() => config, options);
+}
+
+/**
+ * Update the config for a profile (default: the active profile) from its
+ * latest stored value, holding the lock so concurrent updates aren't lost
+ */
+export async function updateConfig(
+  update: (config: WaitroseConfig) => WaitroseConfig,
+  options: { vault?: boolean; profile?: string } = {}
+): Promise<WaitroseConfig> {
+  return withConfigLock(async () => {
+    const file = await readConfigFile();
+    const name = resolveProfile(file, options.profile);
+    const config = update({ ...file.profiles[name] });
+    await writeConfigFile({ ...file, profiles: { ...file.profiles, [name]: config } }, options.vault);
+    return config;
+  });
+}
+
+/**
+ * Remove the stored credentials for a profile (default: the active profile),
+ * keeping its preferences
+ */
+export async function clearConfig(profile?: string): Promise<void> {
+  await updateConfig(config => config.preferences ? { preferences: config.preferences } : {}, { profile });
+}
+
+/**
+ * Switch the whole config file between plain and encrypted storage
+ */
+export async function setVaultEnabled(enabled: boolean): Promise<void> {
+  await withConfigLock(async () => writeConfigFile(await readConfigFile(), enabled));
+}
+
+/**
+ * All profiles with their stored config
+ */
+export async function listProfiles(): Promise<Array<{ name: string; current: boolean; config: WaitroseConfig }>> {
+  const file = await readConfigFile();
+  const active = resolveProfile(file);
+  const names = new Set([...Object.keys(file.profiles), active]);
+  return [...names].sort().map(name => ({ name, current: name === active, config: file.profiles[name] ?? {} }));
+}
+
+/**
+ * Make a profile the one used by default, creating it if needed
+ */
+export async function useProfile(name: string): Promise<void> {
+  checkProfileName(name);
+  await withConfigLock(async () => {
+    const file = await readConfigFile();
+    await writeConfigFile({ currentProfile: name, profiles: { ...file.profiles, [name]: file.profiles[name] ?? {} } });
+  });
+}
+
+/**
+ * Delete a profile; returns false if it didn't exist
+ */
+export async function removeProfile(name: string): Promise<boolean> {
+  checkProfileName(name);
+  return withConfigLock(async () => {
+    const file = await readConfigFile();
+    if (!(name in file.profiles)) return false;
+
+    const { [name]: _removed, ...profiles } = file.profiles;
+    const currentProfile = file.currentProfile === name ? undefined : file.currentProfile;
+    await writeConfigFile({ currentProfile, profiles });
+    return true;
+  });
+}
+
+/** Result of checking the config file with `waitrose config doctor` */
+export interface ConfigReport {
+  path: string;
+  exists: boolean;
+  encrypted: boolean;
+  /** Schema version on disk, or null if the file couldn't be read */
+  version: number | null;
+  /** Problems found; empty when the config is healthy */
+  problems: string[];
+}
+
+async function fileMode(path: string): Promise<number | null> {
+  try {
+    return (await stat(path)).mode & 0o777;
   } catch {
-    // File doesn't exist or is invalid
+    return null;
   }
-  return {};
 }
 
-export async function saveConfig(config: WaitroseConfig): Promise<void> {
-  await ensureConfigDir();
-  await Bun.write(CONFIG_FILE, JSON.stringify(config, null, 2));
+/**
+ * Check the config file for corruption, invalid fields, pending migrations,
+ * loose permissions and stale locks, without changing anything
+ */
+export async function checkConfig(): Promise<ConfigReport> {
+  const mode = await fileMode(CONFIG_FILE);
+  const report: ConfigReport = { path: CONFIG_FILE, exists: mode !== null, encrypted: false, version: null, problems: [] };
+  if (!report.exists) return report;
+
+  if (mode !== null && (mode & 0o077) !== 0) {
+    report.problems.push(`permissions are ${mode.toString(8)}, expected 600`);
+  }
+  if (await isStaleLock()) {
+    report.problems.push(`stale lock file ${LOCK_FILE}`);
+  }
+
+  try {
+    const stored = await readStoredFile();
+    report.encrypted = isVaultFile(stored);
+    const { version, issues } = parseConfigFile(decryptStored(stored));
+    report.version = version;
+    if (version < CONFIG_VERSION) {
+      report.problems.push(`config version ${version} needs migrating to ${CONFIG_VERSION}`);
+    }
+    report.problems.push(...issues);
+  } catch (error) {
+    report.problems.push(error instanceof ConfigError && error.issues.length > 0
+      ? `not valid JSON: ${error.issues[0]}`
+      : error instanceof Error ? error.message : String(error));
+  }
+
+  return report;
 }
 
-export async function clearConfig(): Promise<void> {
-  await saveConfig({});
+/**
+ * Repair the config file: move an unreadable file aside, drop invalid fields,
+ * apply migrations and reset permissions. Returns a description of each fix.
+ */
+export async function repairConfig(): Promise<string[]> {
+  const fixes: string[] = [];
+  if (await isStaleLock()) {
+    fixes.push(`Removed stale lock file ${LOCK_FILE}`);
+  }
+
+  // Taking the lock clears a stale one
+  return withConfigLock(async () => {
+    let stored: unknown;
+    try {
+      stored = await readStoredFile();
+    } catch (error) {
+      if (!(error instanceof ConfigError)) throw error;
+      const backup = `${CONFIG_FILE}.corrupt-${Date.now()}`;
+      await rename(CONFIG_FILE, backup);
+      fixes.push(`Moved unreadable config to ${backup}`);
+      stored = {};
+    }
+
+    // Nothing left to repair if the file is missing or was moved aside
+    const mode = await fileMode(CONFIG_FILE);
+    if (mode === null) return fixes;
+
+    const { file, version, issues } = parseConfigFile(decryptStored(stored));
+    if (version < CONFIG_VERSION || issues.length > 0) {
+      await writeConfigFile(file, isVaultFile(stored));
+      if (version < CONFIG_VERSION) fixes.push(`Migrated config from version ${version} to ${CONFIG_VERSION}`);
+      fixes.push(...issues.map(issue => `Dropped invalid ${issue}`));
+    }
+    if ((mode & 0o077) !== 0) {
+      await chmod(CONFIG_FILE, 0o600);
+      fixes.push("Set permissions to 600");
+    }
+    return fixes;
+  });
 }
 
 /**
@@ -72,4 +650,3 @@ export function isTokenExpired(config: WaitroseConfig): boolean {
 }
 
 export { CONFIG_FILE, CONFIG_DIR };
-
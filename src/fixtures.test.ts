@@ -0,0 +1,110 @@
+/**
+ * Record-and-replay fixture tests
+ *
+ * Records a session against the mock server, then replays it offline.
+ * Run with: bun test fixtures.test.ts
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { WaitroseClient, HttpError, type ProductDetail, type SearchResponse, type TrolleyResponse } from "../waitrose";
+import { createRecordingTransport, createReplayTransport, loadFixtures, redact, redactText, REDACTED, type FixtureRecorder } from "./fixtures";
+import { startMockServer, MOCK_USERNAME, MOCK_PASSWORD, type MockServer } from "./mock-server";
+
+let server: MockServer;
+let recorder: FixtureRecorder;
+let dir: string;
+// Responses seen while recording, for comparing with the replay
+let recorded: { trolley: TrolleyResponse; search: SearchResponse; products: ProductDetail[] };
+
+beforeAll(async () => {
+  server = startMockServer();
+  dir = mkdtempSync(join(tmpdir(), "waitrose-fixtures-"));
+  recorder = createRecordingTransport({ transport: server.transport, path: join(dir, "session.json") });
+
+  const client = new WaitroseClient({ transport: recorder.transport });
+  await client.login(MOCK_USERNAME, MOCK_PASSWORD);
+  await client.getAccountInfo();
+  await client.addToTrolley("088903", 2);
+  recorded = {
+    trolley: await client.getTrolley(),
+    search: await client.searchProducts("milk", { size: 2 }),
+    products: await client.getProductsByLineNumbers(["088903", "064532"]),
+  };
+});
+
+afterAll(() => {
+  server.stop();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("Recording", () => {
+  test("captures every exchange with its operation name", () => {
+    expect(recorder.fixtures.map(f => f.operation)).toEqual([
+      "NewSession",
+      "GetAccountInfoAndMembership",
+      "UpdateTrolleyItems",
+      "GetTrolley",
+      "search",
+      "products",
+    ]);
+  });
+
+  test("redacts credentials, tokens, emails, addresses and card numbers", () => {
+    const text = JSON.stringify(recorder.fixtures);
+    expect(text).not.toContain(MOCK_USERNAME);
+    expect(text).not.toContain(`:"${MOCK_PASSWORD}"`);
+    expect(text).not.toContain("mock-access-");
+    expect(text).not.toContain("1 Test Street");
+    expect(text).not.toContain("RG12 8YA");
+    expect(text).not.toContain("9300000000000001");
+  });
+
+  test("redact keeps structure and non-sensitive values", () => {
+    expect(redact({
+      accessToken: "abc",
+      maskedCardNumber: "************1234",
+      note: "call me on jo@example.com",
+      card: "4111 1111 1111 1111",
+      quantity: { amount: 2, uom: "C62" },
+    })).toEqual({
+      accessToken: REDACTED,
+      maskedCardNumber: REDACTED,
+      note: `call me on ${REDACTED}`,
+      card: REDACTED,
+      quantity: { amount: 2, uom: "C62" },
+    });
+  });
+
+  test("redactText handles JSON and plain text bodies", () => {
+    expect(redactText('{"refreshToken":"abc","status":"ok"}')).toBe(`{"refreshToken":"${REDACTED}","status":"ok"}`);
+    expect(redactText("<p>Bad token for jo@example.com: Authorization: Bearer abc.def refresh_token=xyz&x=1</p>")).toBe(
+      `<p>Bad token for ${REDACTED}: Authorization: Bearer ${REDACTED} refresh_token=${REDACTED}&x=1</p>`
+    );
+  });
+});
+
+describe("Replay", () => {
+  test("serves recorded responses without a server", async () => {
+    const fixtures = await loadFixtures(join(dir, "session.json"));
+    const client = new WaitroseClient({ transport: createReplayTransport(fixtures) });
+
+    // Credentials are redacted on both sides, so any login matches the recording
+    await client.login("someone@else.com", "other");
+    expect((await client.getAccountInfo()).profile.contactAddress.line1).toBe(REDACTED);
+    await client.addToTrolley("088903", 2);
+    expect(await client.getTrolley()).toEqual(recorded.trolley);
+    expect(await client.searchProducts("milk", { size: 2 })).toEqual(recorded.search);
+    expect(await client.getProductsByLineNumbers(["088903", "064532"])).toEqual(recorded.products);
+  });
+
+  test("unrecorded requests fail with a 404 naming the request", async () => {
+    const client = new WaitroseClient({ transport: createReplayTransport(recorder.fixtures) });
+    const error = await client.searchProducts("bread").catch(e => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(404);
+    expect(error.body).toContain("No recorded fixture for search");
+  });
+});
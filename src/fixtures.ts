@@ -0,0 +1,209 @@
+/**
+ * Record-and-replay HTTP fixtures for WaitroseClient
+ *
+ * Recording wraps a transport and captures every request/response pair the
+ * client sends (GraphQL, search/browse and products), with tokens, emails,
+ * addresses and card numbers redacted. Replay serves those pairs back
+ * deterministically without touching the network.
+ *
+ * Usage:
+ *   const recorder = createRecordingTransport({ path: "fixtures/trolley.json" });
+ *   const client = new WaitroseClient({ transport: recorder.transport });
+ *   ...
+ *
+ *   const replay = new WaitroseClient({ transport: createReplayTransport(await loadFixtures("fixtures/trolley.json")) });
+ */
+
+import { writeFileSync } from "fs";
+import { API_PATHS, type FetchFunction, type WaitroseTransport } from "../waitrose.js";
+
+/** A single captured request/response pair */
+export interface Fixture {
+  /** GraphQL operation name or REST endpoint ("search", "browse", "products") */
+  operation: string;
+  request: {
+    method: string;
+    /** Path and query, without the origin */
+    path: string;
+    /** GraphQL variables or REST body (redacted) */
+    body: unknown;
+  };
+  response: {
+    status: number;
+    /** Parsed JSON body (redacted), or the raw text if it wasn't JSON */
+    body: unknown;
+  };
+}
+
+export interface FixtureFile {
+  version: 1;
+  recordedAt: string;
+  fixtures: Fixture[];
+}
+
+export const REDACTED = "[REDACTED]";
+
+// Fields whose values identify the customer or grant access
+const SENSITIVE_KEYS = /token|password|email|username|^line[123]$|postalcode|postcode|^town$|firstname|lastname|contactnumber|cardholdername|maskedcardnumber|serialnumber/i;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/g;
+// 13-19 digit runs (optionally grouped) look like card or loyalty numbers
+const CARD_PATTERN = /\b(?:\d[ -]?){12,18}\d\b/g;
+
+/**
+ * Deep-copy a value with sensitive fields and patterns replaced by REDACTED
+ */
+export function redact(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.replace(EMAIL_PATTERN, REDACTED).replace(CARD_PATTERN, REDACTED);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        SENSITIVE_KEYS.test(key) && v !== null && typeof v !== "object" ? REDACTED : redact(v),
+      ])
+    );
+  }
+  return value;
+}
+
+// Bearer tokens and token-like key/value pairs in plain text, e.g. `refreshToken=abc` or `"accessToken": "abc"`
+const TOKEN_TEXT_PATTERN = /\b(Bearer\s+)[\w.~+/=-]+|("?\w*token"?\s*[:=]\s*"?)[^"\s&,;}]+/gi;
+
+/**
+ * Redact a text body such as an error page: JSON text is redacted field by
+ * field, anything else by pattern
+ */
+export function redactText(text: string): string {
+  try {
+    return JSON.stringify(redact(JSON.parse(text)));
+  } catch {
+    return (redact(text) as string).replace(TOKEN_TEXT_PATTERN, (_match, bearer, key) => `${bearer ?? key}${REDACTED}`);
+  }
+}
+
+/** Operation name and the parts of the request that identify it */
+function describeRequest(url: string, init: RequestInit): Fixture["request"] & { operation: string } {
+  const { pathname, search } = new URL(url);
+  const method = init.method ?? "GET";
+  const parsed = typeof init.body === "string" ? JSON.parse(init.body) as Record<string, unknown> : undefined;
+
+  if (pathname.endsWith(API_PATHS.graphql)) {
+    const query = String(parsed?.query ?? "");
+    const operation = /^(?:query|mutation)\s+(\w+)/.exec(query)?.[1] ?? "graphql";
+    return { operation, method, path: pathname, body: redact(parsed?.variables ?? {}) };
+  }
+
+  if (pathname.includes(`${API_PATHS.search}/`)) {
+    // The customer id in the path differs between accounts, so it isn't part of the key
+    const [endpoint] = pathname.slice(pathname.indexOf(API_PATHS.search) + API_PATHS.search.length + 1).split("/");
+    return { operation: endpoint ?? "search", method, path: pathname.replace(/\/[^/]+$/, "/:customerId") + search, body: redact(parsed) };
+  }
+
+  return { operation: "products", method, path: redact(pathname + search) as string, body: null };
+}
+
+/** Stable JSON (sorted keys) so equivalent requests produce the same key */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${canonical((value as Record<string, unknown>)[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function fixtureKey(request: Fixture["request"] & { operation: string }): string {
+  return `${request.operation} ${request.method} ${request.path} ${canonical(request.body)}`;
+}
+
+export interface FixtureRecorder {
+  /** Transport to pass to WaitroseClient */
+  transport: WaitroseTransport;
+  /** Fixtures captured so far */
+  fixtures: Fixture[];
+  /** Write the captured fixtures to a file */
+  save(path: string): void;
+}
+
+/**
+ * Wrap a transport so every exchange is captured as a sanitized fixture.
+ * With `path`, the fixture file is rewritten after each capture.
+ */
+export function createRecordingTransport(
+  options: { transport?: WaitroseTransport; path?: string } = {}
+): FixtureRecorder {
+  const inner = options.transport ?? {};
+  const baseFetch: FetchFunction = inner.fetch ?? ((url, init) => fetch(url, init));
+  const fixtures: Fixture[] = [];
+
+  const save = (path: string) => {
+    const file: FixtureFile = { version: 1, recordedAt: new Date().toISOString(), fixtures };
+    writeFileSync(path, JSON.stringify(file, null, 2) + "\n");
+  };
+
+  const recordingFetch: FetchFunction = async (url, init) => {
+    const response = await baseFetch(url, init);
+    const text = await response.clone().text();
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text;
+    }
+
+    const { operation, ...request } = describeRequest(url, init);
+    fixtures.push({ operation, request, response: { status: response.status, body: redact(body) } });
+    if (options.path) save(options.path);
+
+    return response;
+  };
+
+  return {
+    transport: { ...inner, fetch: recordingFetch },
+    fixtures,
+    save,
+  };
+}
+
+/**
+ * Serve recorded fixtures instead of hitting the network.
+ * Requests are matched on operation, method, path and (redacted) body; repeated
+ * requests get the matching fixtures in recording order, then the last one again.
+ * Unmatched requests get a 404 naming the missing fixture.
+ */
+export function createReplayTransport(source: Fixture[] | FixtureFile): WaitroseTransport {
+  const fixtures = Array.isArray(source) ? source : source.fixtures;
+  const queues = new Map<string, Fixture[]>();
+  for (const fixture of fixtures) {
+    const key = fixtureKey({ operation: fixture.operation, ...fixture.request });
+    queues.set(key, [...(queues.get(key) ?? []), fixture]);
+  }
+
+  const replayFetch: FetchFunction = async (url, init) => {
+    const key = fixtureKey(describeRequest(url, init));
+    const queue = queues.get(key);
+    if (!queue?.length) {
+      return Response.json({ message: `No recorded fixture for ${key}` }, { status: 404 });
+    }
+
+    const fixture = queue.length > 1 ? queue.shift()! : queue[0]!;
+    const { status, body } = fixture.response;
+    return typeof body === "string"
+      ? new Response(body, { status })
+      : Response.json(body, { status });
+  };
+
+  return { fetch: replayFetch };
+}
+
+/**
+ * Load a fixture file written by a recorder
+ */
+export async function loadFixtures(path: string): Promise<FixtureFile> {
+  return await Bun.file(path).json() as FixtureFile;
+}
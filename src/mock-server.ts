@@ -0,0 +1,893 @@
+/**
+ * Offline mock Waitrose server
+ *
+ * A local stand-in for the Waitrose APIs with a small product catalogue and a
+ * stateful trolley, orders and slots. It serves the GraphQL operations in
+ * QUERIES plus the search/browse and products REST endpoints on the same paths
+ * as production, so a client pointed at it with transportForOrigin() behaves
+ * like one talking to the real thing.
+ *
+ * Usage:
+ *   const server = startMockServer();
+ *   const client = new WaitroseClient({ transport: server.transport });
+ *   await client.login(MOCK_USERNAME, MOCK_PASSWORD);
+ *   ...
+ *   server.stop();
+ *
+ * Or from a shell:
+ *   bun run src/mock-server.ts [port]
+ *   WAITROSE_API_ORIGIN=http://localhost:<port> waitrose login mock@example.com password
+ */
+
+import {
+  API_PATHS,
+  transportForOrigin,
+  type AccountProfile,
+  type ApiFailure,
+  type Campaign,
+  type OperationName,
+  type OrderDetails,
+  type OrderLine,
+  type OrderSlot,
+  type Price,
+  type Quantity,
+  type SearchProduct,
+  type Slot,
+  type SlotDay,
+  type UnitOfMeasure,
+  type WaitroseTransport,
+} from "../waitrose.js";
+
+export const MOCK_USERNAME = "mock@example.com";
+export const MOCK_PASSWORD = "password";
+
+const CUSTOMER_ID = "900001";
+const BRANCH_ID = "651";
+const TROLLEY_ORDER_ID = "1000000100";
+const TOKEN_TTL_SECONDS = 900;
+
+// ============================================================================
+// Catalogue
+// ============================================================================
+
+/** A catalogue entry; `category` is the browse path the product lives under */
+export interface MockProduct extends SearchProduct {
+  category: string;
+  weights: { uoms: UnitOfMeasure[] };
+  substitutionsProhibited?: boolean;
+  /** Whether the product is currently unavailable (raises a trolley conflict) */
+  outOfStock?: boolean;
+}
+
+function product(
+  lineNumber: string,
+  name: string,
+  brandName: string,
+  size: string,
+  price: number,
+  category: string,
+  extra: Partial<MockProduct> = {}
+): MockProduct {
+  return {
+    id: `${lineNumber}-${lineNumber.slice(-3)}-${lineNumber.slice(0, 3)}`,
+    lineNumber,
+    name,
+    brandName,
+    size,
+    displayPrice: `£${price.toFixed(2)}`,
+    displayPriceEstimated: false,
+    thumbnail: `https://ecom-su-static-prod.wtrecom.com/images/products/3/LN_${lineNumber}_BP_3.jpg`,
+    productType: "G",
+    currentSaleUnitPrice: {
+      price: { amount: price, currencyCode: "GBP" },
+      quantity: { amount: 1, uom: "C62" },
+    },
+    defaultQuantity: { amount: 1, uom: "C62" },
+    categories: category.split("/").map(part => ({ id: part, name: part })),
+    promotions: [],
+    weights: { uoms: ["C62"] },
+    category,
+    ...extra,
+  };
+}
+
+/** Build a product sold by weight, priced per kilogram */
+function weighedProduct(
+  lineNumber: string,
+  name: string,
+  pricePerKg: number,
+  category: string,
+  uoms: UnitOfMeasure[],
+  defaultQuantity: Quantity
+): MockProduct {
+  const kg = defaultQuantity.uom === "GRM" ? defaultQuantity.amount / 1000 : defaultQuantity.amount;
+  return product(lineNumber, name, "Waitrose", "per kg", pricePerKg, category, {
+    displayPrice: `£${pricePerKg.toFixed(2)}/kg`,
+    displayPriceEstimated: true,
+    displayPriceQualifier: "per kg",
+    formattedPriceRange: `£${(pricePerKg * kg * 0.9).toFixed(2)} - £${(pricePerKg * kg * 1.1).toFixed(2)}`,
+    formattedWeightRange: `${Math.round(kg * 900)}g - ${Math.round(kg * 1100)}g`,
+    currentSaleUnitPrice: {
+      price: { amount: pricePerKg, currencyCode: "GBP" },
+      quantity: { amount: 1, uom: "KGM" },
+    },
+    defaultQuantity,
+    weights: { uoms },
+  });
+}
+
+export const MOCK_CATALOGUE: MockProduct[] = [
+  product("088903", "Waitrose Fairtrade Bananas", "Waitrose", "5s", 0.95, "groceries/fresh-and-chilled/fresh-fruit"),
+  product("052812", "Waitrose British Semi Skimmed Milk 2 Pints", "Waitrose", "1.136L", 1.1, "groceries/dairy-eggs-and-milk/milk"),
+  product("052814", "Waitrose British Semi Skimmed Milk 4 Pints", "Waitrose", "2.272L", 1.65, "groceries/dairy-eggs-and-milk/milk"),
+  product("052816", "Waitrose Duchy Organic Whole Milk 2 Pints", "Waitrose Duchy Organic", "1.136L", 1.45, "groceries/dairy-eggs-and-milk/milk"),
+  product("015480", "Waitrose Free Range Large Eggs", "Waitrose", "6s", 2.05, "groceries/dairy-eggs-and-milk/eggs"),
+  product("064532", "Cathedral City Mature Cheddar", "Cathedral City", "350g", 4.0, "groceries/dairy-eggs-and-milk/cheese", {
+    promotions: [{
+      promotionId: "91234",
+      promotionDescription: "Add 2 for £7",
+      promotionTypeCode: "MULTI_BUY",
+      myWaitrosePromotion: false,
+    }],
+  }),
+  product("075093", "Essential White Bread Medium Sliced", "Essential Waitrose", "800g", 0.75, "groceries/bakery/bread"),
+  product("038459", "Hovis Wholemeal Medium Sliced Bread", "Hovis", "800g", 1.6, "groceries/bakery/bread"),
+  product("410211", "Waitrose Sourdough Bloomer", "Waitrose", "400g", 2.5, "groceries/bakery/bread"),
+  product("093721", "Oatly Oat Drink Barista Edition", "Oatly", "1L", 2.1, "groceries/dairy-eggs-and-milk/milk", {
+    outOfStock: true,
+  }),
+  weighedProduct("721551", "Waitrose Loose British Potatoes", 1.2, "groceries/fresh-and-chilled/fresh-vegetables", ["KGM"], { amount: 1, uom: "KGM" }),
+  weighedProduct("834209", "Waitrose Beef Steak Mince from the Counter", 9.5, "groceries/fresh-and-chilled/fresh-meat", ["GRM", "KGM"], { amount: 500, uom: "GRM" }),
+  product("905117", "Waitrose Celebration Chocolate Cake", "Waitrose", "1.2kg", 18, "groceries/bakery/cakes", {
+    leadTime: 4,
+  }),
+];
+
+// ============================================================================
+// State
+// ============================================================================
+
+interface MockTrolleyLine {
+  trolleyItemId: number;
+  lineNumber: string;
+  quantity: { amount: number; uom: UnitOfMeasure };
+  noteToShopper: string | null;
+  canSubstitute: boolean;
+}
+
+interface MockSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+interface MockOrder {
+  customerOrderId: string;
+  status: string;
+  created: string;
+  lastUpdated: string;
+  lines: Array<{ lineNumber: string; quantity: Quantity; noteToShopper?: string; substitutionAllowed?: boolean }>;
+  slot: OrderSlot;
+}
+
+/** Mutable state of the mock server, exposed for tests to inspect and seed */
+export interface MockState {
+  catalogue: MockProduct[];
+  sessions: Map<string, MockSession>;
+  trolley: MockTrolleyLine[];
+  orders: MockOrder[];
+  /** Currently booked slot id, if any */
+  bookedSlotId: string | null;
+  /** Order currently being amended, if any */
+  amendingOrderId: string | null;
+  nextTrolleyItemId: number;
+  nextToken: number;
+}
+
+const PENDING_STATUSES = ["PAYMENT_FAILED", "PLACED", "FULFIL", "PAID", "PICKED", "AMENDING"];
+
+const PROFILE: AccountProfile = {
+  id: CUSTOMER_ID,
+  email: MOCK_USERNAME,
+  contactAddress: {
+    id: "addr-1",
+    line1: "1 Test Street",
+    line2: "",
+    line3: "",
+    town: "Bracknell",
+    postalCode: "RG12 8YA",
+  },
+};
+
+const CAMPAIGNS: Campaign[] = [{
+  id: "summer",
+  name: "Summer BBQ",
+  marketingStartDate: "2024-06-01",
+  marketingEndDate: "2024-08-31",
+  startDate: "2024-06-01",
+  endDate: "2024-08-31",
+}];
+
+/** ISO date (YYYY-MM-DD) `offset` days from today */
+function isoDate(offset: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + offset);
+  return date.toISOString().slice(0, 10);
+}
+
+function orderSlot(date: string, status: string): OrderSlot {
+  return {
+    branchId: BRANCH_ID,
+    branchName: "Bracknell",
+    type: "DELIVERY",
+    startDateTime: `${date}T09:00:00Z`,
+    endDateTime: `${date}T10:00:00Z`,
+    status,
+  };
+}
+
+function initialState(): MockState {
+  return {
+    catalogue: MOCK_CATALOGUE.map(p => structuredClone(p)),
+    sessions: new Map(),
+    trolley: [],
+    orders: [
+      {
+        customerOrderId: "1000000002",
+        status: "PLACED",
+        created: `${isoDate(-2)}T18:30:00Z`,
+        lastUpdated: `${isoDate(-2)}T18:30:00Z`,
+        lines: [
+          { lineNumber: "088903", quantity: { amount: 1, uom: "C62" } },
+          { lineNumber: "015480", quantity: { amount: 1, uom: "C62" } },
+        ],
+        slot: orderSlot(isoDate(3), "BOOKED"),
+      },
+      {
+        customerOrderId: "1000000001",
+        status: "COMPLETED",
+        created: `${isoDate(-9)}T18:30:00Z`,
+        lastUpdated: `${isoDate(-7)}T10:00:00Z`,
+        lines: [
+          { lineNumber: "088903", quantity: { amount: 2, uom: "C62" } },
+          { lineNumber: "052814", quantity: { amount: 1, uom: "C62" }, noteToShopper: "Longest date please" },
+          { lineNumber: "075093", quantity: { amount: 1, uom: "C62" } },
+          { lineNumber: "064532", quantity: { amount: 2, uom: "C62" }, substitutionAllowed: false },
+          { lineNumber: "834209", quantity: { amount: 500, uom: "GRM" } },
+        ],
+        slot: orderSlot(isoDate(-7), "COMPLETED"),
+      },
+    ],
+    bookedSlotId: null,
+    amendingOrderId: null,
+    nextTrolleyItemId: 1,
+    nextToken: 1,
+  };
+}
+
+// ============================================================================
+// Pricing & Trolley
+// ============================================================================
+
+function gbp(amount: number): Price {
+  return { amount: Math.round(amount * 100) / 100, currencyCode: "GBP" };
+}
+
+/** Price of a quantity of a product; weighed products are priced per kg */
+function linePrice(product: MockProduct, quantity: Quantity): number {
+  const unitPrice = product.currentSaleUnitPrice?.price.amount ?? 0;
+  switch (quantity.uom) {
+    case "GRM": return unitPrice * quantity.amount / 1000;
+    case "KGM": return unitPrice * quantity.amount;
+    default: {
+      // Weighed products bought by the item are estimated at their default weight
+      const def = product.defaultQuantity;
+      if (def && def.uom !== "C62") return linePrice(product, def) * quantity.amount;
+      return unitPrice * quantity.amount;
+    }
+  }
+}
+
+/** Slots offered each day: hourly 08:00-20:00, every fourth one full */
+function slotsForDay(date: string): Slot[] {
+  const slots: Slot[] = [];
+  for (let hour = 8; hour < 20; hour++) {
+    const hh = String(hour).padStart(2, "0");
+    const next = String(hour + 1).padStart(2, "0");
+    slots.push({
+      id: `${date}_${hh}`,
+      startDateTime: `${date}T${hh}:00:00Z`,
+      endDateTime: `${date}T${next}:00:00Z`,
+      shopByDateTime: `${date}T${hh}:00:00Z`,
+      status: hour % 4 === 3 ? "FULLY_BOOKED" : "AVAILABLE",
+      charge: gbp(hour < 10 || hour >= 18 ? 4.5 : 2.5),
+      greenSlot: hour % 3 === 0,
+      deliveryPassSlot: false,
+    });
+  }
+  return slots;
+}
+
+function findSlot(slotId: string): Slot | undefined {
+  const date = slotId.split("_")[0] ?? "";
+  return slotsForDay(date).find(s => s.id === slotId);
+}
+
+function createMockServerHandlers(state: MockState) {
+  const productByLine = (lineNumber: string) => state.catalogue.find(p => p.lineNumber === lineNumber);
+
+  function trolleyResponse(failures: ApiFailure[] | null = null) {
+    const items = state.trolley.map(line => {
+      const product = productByLine(line.lineNumber)!;
+      return {
+        ...line,
+        personalisedMessage: null,
+        reservedQuantity: null,
+        totalPrice: gbp(linePrice(product, line.quantity)),
+        triggeredPromotions: [],
+        untriggeredPromotions: product.promotions?.map(p => p.promotionId) ?? [],
+      };
+    });
+
+    const slot = state.bookedSlotId ? findSlot(state.bookedSlotId) : undefined;
+
+    // Out of stock lines are hard conflicts; lines needing more notice than the booked slot gives are soft
+    const conflicts = state.trolley.flatMap(line => {
+      const product = productByLine(line.lineNumber)!;
+      const base = { productId: product.id, lineNumber: line.lineNumber, itemId: String(line.trolleyItemId) };
+
+      if (product.outOfStock) {
+        return [{
+          ...base,
+          messages: [`${product.name} is currently out of stock`],
+          priority: 1,
+          outOfStock: true,
+          resolutionActions: ["REMOVE", "SWAP"],
+          prohibitedActions: [],
+          type: "OUT_OF_STOCK",
+          slotOptionDates: [],
+        }];
+      }
+
+      const earliest = isoDate(product.leadTime ?? 0);
+      if (product.leadTime && (!slot || slot.startDateTime.slice(0, 10) < earliest)) {
+        return [{
+          ...base,
+          messages: [`${product.name} needs ${product.leadTime} days' notice`],
+          priority: 2,
+          outOfStock: false,
+          resolutionActions: ["REMOVE", "CHANGE_SLOT"],
+          prohibitedActions: ["SWAP"],
+          type: "LEAD_TIME",
+          slotOptionDates: Array.from({ length: 3 }, (_, i) => ({ date: isoDate(product.leadTime! + i), type: "DELIVERY" })),
+        }];
+      }
+
+      return [];
+    });
+    const hardConflicts = conflicts.filter(c => c.outOfStock).length;
+
+    const itemTotal = items.reduce((sum, item) => sum + item.totalPrice.amount, 0);
+    const deliveryCharge = slot ? slot.charge : null;
+
+    return {
+      products: state.trolley.map(line => productByLine(line.lineNumber)!),
+      trolley: {
+        amendingOrder: state.amendingOrderId !== null,
+        orderId: state.amendingOrderId ?? TROLLEY_ORDER_ID,
+        conflicts,
+        trolleyItems: items,
+        trolleyTotals: {
+          collectionMinimumOrderValue: gbp(40),
+          deliveryMinimumOrderValue: gbp(40),
+          deliveryCharge,
+          itemTotalEstimatedCost: gbp(itemTotal),
+          minimumSpendThresholdMet: itemTotal >= 40,
+          savingsFromOffers: null,
+          savingsFromMyWaitrose: null,
+          totalDepositCharge: gbp(0),
+          totalEstimatedCost: gbp(itemTotal + (deliveryCharge?.amount ?? 0)),
+          trolleyItemCounts: {
+            noConflicts: items.length - conflicts.length,
+            softConflicts: conflicts.length - hardConflicts,
+            hardConflicts,
+          },
+        },
+      },
+      instantCheckout: false,
+      failures,
+    };
+  }
+
+  function orderDetails(order: MockOrder): OrderDetails {
+    const orderLines: OrderLine[] = order.lines.map(line => {
+      const product = productByLine(line.lineNumber);
+      const total = product ? gbp(linePrice(product, line.quantity)) : null;
+      const completed = order.status === "COMPLETED";
+      return {
+        lineNumber: line.lineNumber,
+        orderLineStatus: completed ? "PICKED" : "PLACED",
+        estimatedQuantity: line.quantity,
+        quantity: completed ? line.quantity : null,
+        estimatedUnitPrice: product?.currentSaleUnitPrice?.price ?? null,
+        estimatedTotalPrice: total,
+        estimatedPrice: total,
+        price: completed ? total : null,
+        unitPrice: completed ? product?.currentSaleUnitPrice?.price ?? null : null,
+        totalPrice: completed ? total : null,
+        substitutionAllowed: line.substitutionAllowed ?? true,
+        noteToShopper: line.noteToShopper ?? null,
+      };
+    });
+    const total = gbp(orderLines.reduce((sum, l) => sum + (l.estimatedTotalPrice?.amount ?? 0), 0));
+    const completed = order.status === "COMPLETED";
+
+    return {
+      customerOrderId: order.customerOrderId,
+      status: order.status,
+      created: order.created,
+      lastUpdated: order.lastUpdated,
+      orderLines,
+      slots: [order.slot],
+      containsEntertainingLines: false,
+      substitutionsAllowed: true,
+      bagless: false,
+      totals: {
+        estimated: {
+          totalPrice: total,
+          toPay: total,
+          deliveryCharge: gbp(2.5),
+          offerSavings: null,
+          membershipSavings: null,
+        },
+        actual: {
+          paid: completed ? total : null,
+          savings: null,
+          deliveryCharge: completed ? gbp(2.5) : null,
+        },
+      },
+    };
+  }
+
+  function orderSummaries(pending: boolean, input: { size?: number; sortBy?: string } = {}) {
+    const orders = state.orders
+      .filter(o => PENDING_STATUSES.includes(o.status) === pending)
+      .sort((a, b) => a.created.localeCompare(b.created) * (input.sortBy === "-" ? -1 : 1))
+      .slice(0, input.size ?? 15);
+
+    return {
+      content: orders.map(order => {
+        const details = orderDetails(order);
+        return {
+          customerOrderId: order.customerOrderId,
+          status: order.status,
+          created: order.created,
+          lastUpdated: order.lastUpdated,
+          links: [],
+          totals: {
+            estimated: { totalPrice: details.totals.estimated.totalPrice, toPay: details.totals.estimated.toPay },
+            actual: { paid: details.totals.actual.paid },
+          },
+          slots: details.slots,
+          containsEntertainingLines: false,
+          orderLines: order.lines.map(l => ({ lineNumber: l.lineNumber })),
+        };
+      }),
+      links: [],
+    };
+  }
+
+  function newSession() {
+    const n = state.nextToken++;
+    const session: MockSession = {
+      accessToken: `mock-access-${n}`,
+      refreshToken: `mock-refresh-${n}`,
+      expiresAt: Date.now() + TOKEN_TTL_SECONDS * 1000,
+    };
+    state.sessions.set(session.accessToken, session);
+    return {
+      __typename: "SetSessionPayload",
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
+      customerId: CUSTOMER_ID,
+      customerOrderId: TROLLEY_ORDER_ID,
+      customerOrderState: "PENDING",
+      defaultBranchId: BRANCH_ID,
+      expiresIn: TOKEN_TTL_SECONDS,
+      failures: null,
+    };
+  }
+
+  function sessionFailure(type: string, message: string) {
+    return {
+      __typename: "SetSessionPayload",
+      accessToken: null,
+      refreshToken: null,
+      customerId: null,
+      customerOrderId: null,
+      customerOrderState: null,
+      defaultBranchId: null,
+      expiresIn: null,
+      failures: [{ type, message }],
+    };
+  }
+
+  function orderMutation(field: string, customerOrderId: string, apply: (order: MockOrder) => ApiFailure | null) {
+    const order = state.orders.find(o => o.customerOrderId === customerOrderId);
+    const failure = order
+      ? apply(order)
+      : { type: "ORDER_NOT_FOUND", message: `Order ${customerOrderId} not found` };
+    if (order && !failure) order.lastUpdated = new Date().toISOString();
+    return { [field]: { failures: failure ? [failure] : null } };
+  }
+
+  type Variables = Record<string, unknown>;
+
+  /** A string field of an input object variable, if it has one */
+  function field(input: unknown, key: string): string | undefined {
+    const value = input && typeof input === "object" ? (input as Record<string, unknown>)[key] : undefined;
+    return typeof value === "string" ? value : undefined;
+  }
+
+  /** The paging fields of a GetOrdersInput variable */
+  function pageInput(input: unknown): { size?: number; sortBy?: string } {
+    const size = input && typeof input === "object" ? (input as Record<string, unknown>).size : undefined;
+    return { size: typeof size === "number" ? size : undefined, sortBy: field(input, "sortBy") };
+  }
+  type Resolver = (variables: Variables, token: string | null) => Record<string, unknown>;
+
+  const resolvers: Record<OperationName, Resolver> = {
+    NewSession: ({ input }) => ({
+      generateSession: field(input, "username") === MOCK_USERNAME && field(input, "password") === MOCK_PASSWORD
+        ? newSession()
+        : sessionFailure("INVALID_CREDENTIALS", "Invalid username or password"),
+    }),
+
+    RefreshSession: ({ input }) => {
+      const existing = [...state.sessions.values()].find(s => s.refreshToken === field(input, "refreshToken"));
+      if (!existing) {
+        return { generateSession: sessionFailure("INVALID_REFRESH_TOKEN", "Refresh token is invalid or expired") };
+      }
+      state.sessions.delete(existing.accessToken);
+      return { generateSession: newSession() };
+    },
+
+    DeleteSession: (_vars, token) => {
+      if (token) state.sessions.delete(token);
+      return { deleteSession: true };
+    },
+
+    GetShoppingContext: () => ({
+      shoppingContext: {
+        customerId: CUSTOMER_ID,
+        customerOrderId: state.amendingOrderId ?? TROLLEY_ORDER_ID,
+        customerOrderState: state.amendingOrderId ? "AMENDING" : "PENDING",
+        defaultBranchId: BRANCH_ID,
+      },
+    }),
+
+    GetAccountInfoAndMembership: () => ({
+      getAccountProfile: PROFILE,
+      getMemberships: { memberships: [{ number: "9300000000000001", type: "MY_WAITROSE" }] },
+    }),
+
+    GetTrolley: () => ({ getTrolley: trolleyResponse() }),
+
+    UpdateTrolleyItems: ({ trolleyItemsInput }) => {
+      const failures: ApiFailure[] = [];
+      for (const input of (Array.isArray(trolleyItemsInput) ? trolleyItemsInput : []) as MockTrolleyLine[]) {
+        if (!productByLine(input.lineNumber)) {
+          failures.push({ type: "PRODUCT_NOT_FOUND", message: `Product ${input.lineNumber} not found` });
+          continue;
+        }
+        const product = productByLine(input.lineNumber)!;
+        if (input.quantity.amount > 0 && !product.weights.uoms.includes(input.quantity.uom)) {
+          failures.push({ type: "INVALID_UOM", message: `${product.name} can't be bought in ${input.quantity.uom}` });
+          continue;
+        }
+        const existing = state.trolley.find(l => l.lineNumber === input.lineNumber);
+        if (input.quantity.amount <= 0) {
+          state.trolley = state.trolley.filter(l => l.lineNumber !== input.lineNumber);
+        } else if (existing) {
+          existing.quantity = input.quantity;
+          // An empty note clears it
+          if (input.noteToShopper !== undefined) existing.noteToShopper = input.noteToShopper || null;
+          if (input.canSubstitute !== undefined) existing.canSubstitute = input.canSubstitute;
+        } else {
+          state.trolley.push({
+            trolleyItemId: state.nextTrolleyItemId++,
+            lineNumber: input.lineNumber,
+            quantity: input.quantity,
+            noteToShopper: input.noteToShopper || null,
+            canSubstitute: input.canSubstitute ?? true,
+          });
+        }
+      }
+      return { updateTrolleyItems: trolleyResponse(failures.length ? failures : null) };
+    },
+
+    EmptyTrolley: () => {
+      state.trolley = [];
+      return { emptyTrolley: trolleyResponse() };
+    },
+
+    GetOrders: ({ getPendingOrdersInput, getPreviousOrdersInput }) => ({
+      pendingOrders: orderSummaries(true, pageInput(getPendingOrdersInput)),
+      previousOrders: orderSummaries(false, pageInput(getPreviousOrdersInput)),
+      amendingOrder: { content: [], links: [] },
+    }),
+
+    GetPendingOrders: ({ getPendingOrdersInput }) => ({
+      pendingOrders: orderSummaries(true, pageInput(getPendingOrdersInput)),
+    }),
+
+    GetPreviousOrders: ({ getPreviousOrdersInput }) => ({
+      previousOrders: orderSummaries(false, pageInput(getPreviousOrdersInput)),
+    }),
+
+    GetOrder: ({ customerOrderId }) => {
+      const order = state.orders.find(o => o.customerOrderId === customerOrderId);
+      return { getOrder: order ? orderDetails(order) : null };
+    },
+
+    CancelOrder: ({ input }) => orderMutation("cancelOrder", String(input), order => {
+      if (!PENDING_STATUSES.includes(order.status)) {
+        return { type: "ORDER_NOT_CANCELLABLE", message: `Order ${order.customerOrderId} cannot be cancelled` };
+      }
+      order.status = "CANCELLED";
+      return null;
+    }),
+
+    InitiateAmendOrder: ({ input }) => orderMutation("amendOrder", String(input), order => {
+      if (order.status !== "PLACED") {
+        return { type: "ORDER_NOT_AMENDABLE", message: `Order ${order.customerOrderId} cannot be amended` };
+      }
+      order.status = "AMENDING";
+      state.amendingOrderId = order.customerOrderId;
+      return null;
+    }),
+
+    CancelAmendOrder: ({ input }) => orderMutation("cancelAmendOrder", String(input), order => {
+      if (order.status !== "AMENDING") {
+        return { type: "ORDER_NOT_AMENDING", message: `Order ${order.customerOrderId} is not being amended` };
+      }
+      order.status = "PLACED";
+      state.amendingOrderId = null;
+      return null;
+    }),
+
+    CurrentSlot: () => {
+      const slot = state.bookedSlotId ? findSlot(state.bookedSlotId) : undefined;
+      return {
+        currentSlot: {
+          slotType: slot ? "DELIVERY" : null,
+          branchId: slot ? BRANCH_ID : null,
+          addressId: slot ? PROFILE.contactAddress.id : null,
+          postcode: slot ? PROFILE.contactAddress.postalCode : null,
+          startDateTime: slot?.startDateTime ?? null,
+          endDateTime: slot?.endDateTime ?? null,
+          expiryDateTime: slot ? new Date(Date.now() + 2 * 3600_000).toISOString() : null,
+          orderCutoffDateTime: slot?.shopByDateTime ?? null,
+          amendOrderCutoffDateTime: slot?.shopByDateTime ?? null,
+          shopByDateTime: slot?.shopByDateTime ?? null,
+          deliveryCharge: slot?.charge ?? null,
+          slotGridType: slot ? "DEFAULT_GRID" : null,
+        },
+      };
+    },
+
+    SlotDates: () => ({
+      slotDates: {
+        content: Array.from({ length: 14 }, (_, i) => {
+          const id = isoDate(i + 1);
+          const dayOfWeek = new Date(`${id}T12:00:00Z`).toLocaleDateString("en-GB", { weekday: "long", timeZone: "UTC" });
+          return { id, dayOfWeek: dayOfWeek.toUpperCase() };
+        }),
+        failures: null,
+      },
+    }),
+
+    SlotDays: ({ slotDaysInput }) => {
+      const date = field(slotDaysInput, "fromDate") ?? isoDate(1);
+      const day: SlotDay = {
+        id: date,
+        branchId: field(slotDaysInput, "branchId") ?? BRANCH_ID,
+        slotType: field(slotDaysInput, "slotType") ?? "DELIVERY",
+        date,
+        slots: slotsForDay(date),
+      };
+      return { slotDays: { content: [day], failures: null, variant: null } };
+    },
+
+    BookSlot: ({ input }) => {
+      const slotId = field(input, "slotId");
+      const slot = findSlot(slotId ?? "");
+      if (!slot || slot.status !== "AVAILABLE") {
+        return {
+          bookSlot: {
+            slotExpiryDateTime: null,
+            orderCutoffDateTime: null,
+            amendOrderCutoffDateTime: null,
+            shopByDateTime: null,
+            failures: [{ type: "SLOT_UNAVAILABLE", message: `Slot ${slotId} is not available` }],
+            variant: null,
+          },
+        };
+      }
+      state.bookedSlotId = slot.id;
+      return {
+        bookSlot: {
+          slotExpiryDateTime: new Date(Date.now() + 2 * 3600_000).toISOString(),
+          orderCutoffDateTime: slot.shopByDateTime,
+          amendOrderCutoffDateTime: slot.shopByDateTime,
+          shopByDateTime: slot.shopByDateTime,
+          failures: null,
+          variant: null,
+        },
+      };
+    },
+
+    GetCampaigns: () => ({ campaigns: CAMPAIGNS }),
+  };
+
+  // Operations that work without a session
+  const anonymous = new Set<OperationName>(["NewSession", "RefreshSession", "GetCampaigns"]);
+
+  function bearerToken(request: Request): string | null {
+    const header = request.headers.get("Authorization");
+    return header?.startsWith("Bearer ") ? header.slice(7) : null;
+  }
+
+  function isValidToken(token: string | null): boolean {
+    const session = token ? state.sessions.get(token) : undefined;
+    return !!session && session.expiresAt > Date.now();
+  }
+
+  async function graphql(request: Request): Promise<Response> {
+    const { query, variables } = await request.json() as { query: string; variables?: Variables };
+    const operation = /^(?:query|mutation)\s+(\w+)/.exec(query)?.[1] as OperationName | undefined;
+    const resolver = operation ? resolvers[operation] : undefined;
+
+    if (!operation || !resolver) {
+      return Response.json({ data: null, errors: [{ message: `Unknown operation ${operation ?? "(anonymous)"}` }] });
+    }
+
+    const token = bearerToken(request);
+    if (!anonymous.has(operation) && !isValidToken(token)) {
+      return Response.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    return Response.json({ data: resolver(variables ?? {}, token) });
+  }
+
+  async function search(request: Request, endpoint: string): Promise<Response> {
+    const body = await request.json() as { customerSearchRequest?: { queryParams?: Record<string, unknown> } };
+    const params = body.customerSearchRequest?.queryParams ?? {};
+
+    let matches = state.catalogue;
+    if (endpoint === "browse") {
+      const category = String(params.category ?? "");
+      matches = matches.filter(p => p.category.startsWith(category));
+    } else if (params.promotionId) {
+      matches = matches.filter(p => p.promotions?.some(promo => promo.promotionId === params.promotionId));
+    } else {
+      const words = String(params.searchTerm ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+      matches = matches.filter(p => {
+        const haystack = `${p.name} ${p.brandName ?? ""} ${p.category}`.toLowerCase();
+        return words.every(word => haystack.includes(word));
+      });
+    }
+
+    const priceOf = (p: MockProduct) => p.currentSaleUnitPrice?.price.amount ?? 0;
+    const sorters: Record<string, (a: MockProduct, b: MockProduct) => number> = {
+      PRICE_LOW_2_HIGH: (a, b) => priceOf(a) - priceOf(b),
+      PRICE_HIGH_2_LOW: (a, b) => priceOf(b) - priceOf(a),
+      A_2_Z: (a, b) => a.name.localeCompare(b.name),
+      Z_2_A: (a, b) => b.name.localeCompare(a.name),
+    };
+    const sorter = sorters[String(params.sortBy)];
+    if (sorter) matches = [...matches].sort(sorter);
+
+    const start = Number(params.start ?? 0);
+    const page = matches.slice(start, start + Number(params.size ?? 24));
+
+    return Response.json({
+      totalMatches: matches.length,
+      productsInResultset: page.length,
+      componentsAndProducts: page.map(({ category, weights, outOfStock, substitutionsProhibited, ...searchProduct }) => ({
+        searchProduct,
+      })),
+    });
+  }
+
+  function products(lineNumbersParam: string): Response {
+    const lineNumbers = decodeURIComponent(lineNumbersParam).split(/[+ ]/);
+    return Response.json({
+      products: lineNumbers
+        .map(productByLine)
+        .filter((p): p is MockProduct => !!p)
+        .map(p => ({
+          lineNumber: p.lineNumber,
+          name: p.name,
+          brandName: p.brandName,
+          displayPrice: p.displayPrice,
+          size: p.size,
+          thumbnail: p.thumbnail,
+          currentSaleUnitPrice: p.currentSaleUnitPrice,
+          defaultQuantity: p.defaultQuantity,
+          weights: p.weights,
+        })),
+    });
+  }
+
+  return async function handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+
+    if (pathname === API_PATHS.graphql && request.method === "POST") {
+      return graphql(request);
+    }
+
+    if (pathname.startsWith(`${API_PATHS.search}/`) && request.method === "POST") {
+      const endpoint = pathname.slice(API_PATHS.search.length + 1).split("/")[0];
+      if (endpoint === "search" || endpoint === "browse") {
+        return search(request, endpoint);
+      }
+    }
+
+    if (pathname.startsWith(`${API_PATHS.products}/`) && request.method === "GET") {
+      return products(pathname.slice(API_PATHS.products.length + 1));
+    }
+
+    return Response.json({ message: `No mock for ${request.method} ${pathname}` }, { status: 404 });
+  };
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+export interface MockServer {
+  /** Origin the server listens on, e.g. http://localhost:54321 */
+  url: string;
+  /** Transport pointing a WaitroseClient at this server */
+  transport: WaitroseTransport;
+  /** Live server state */
+  state: MockState;
+  /** Restore the initial catalogue, trolley, orders and slots */
+  reset(): void;
+  stop(): void;
+}
+
+/**
+ * Start the mock server on the given port (default: a random free port)
+ */
+export function startMockServer(options: { port?: number } = {}): MockServer {
+  const state = initialState();
+  const handle = createMockServerHandlers(state);
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    fetch: request => handle(request),
+  });
+
+  const url = `http://localhost:${server.port}`;
+
+  return {
+    url,
+    transport: transportForOrigin(url),
+    state,
+    reset() {
+      Object.assign(state, initialState());
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+}
+
+if (import.meta.main) {
+  const port = Number(process.argv[2] ?? 4010);
+  const server = startMockServer({ port });
+  console.log(`Mock Waitrose server listening on ${server.url}`);
+  console.log(`  WAITROSE_API_ORIGIN=${server.url} waitrose login ${MOCK_USERNAME} ${MOCK_PASSWORD}`);
+}
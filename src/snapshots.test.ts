@@ -0,0 +1,118 @@
+/**
+ * Trolley snapshot tests
+ * Run with: bun test snapshots.test.ts
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { TrolleyResponse } from "../waitrose";
+import { SnapshotStore, createSnapshot, diffTrolley, restoreInputs } from "./snapshots";
+
+type Line = [lineNumber: string, amount: number, note?: string | null, canSubstitute?: boolean];
+
+// A trolley response with just the fields snapshots use
+function trolleyOf(lines: Line[]): TrolleyResponse {
+  return {
+    products: lines.map(([lineNumber]) => ({ lineNumber, name: `Product ${lineNumber}` })),
+    trolley: {
+      orderId: "order-1",
+      trolleyItems: lines.map(([lineNumber, amount, note = null, canSubstitute = true], i) => ({
+        lineNumber,
+        trolleyItemId: i + 1,
+        quantity: { amount, uom: "C62" },
+        totalPrice: { amount: amount, currencyCode: "GBP" },
+        noteToShopper: note,
+        canSubstitute,
+      })),
+    },
+  } as unknown as TrolleyResponse;
+}
+
+describe("Trolley diff", () => {
+  const snapshot = createSnapshot("weekly", trolleyOf([
+    ["088903", 2],
+    ["015480", 1, "Large please"],
+    ["064532", 1],
+  ]), new Date("2026-10-19T09:00:00Z"));
+
+  test("reports added, removed and changed lines", () => {
+    const diff = diffTrolley(snapshot, trolleyOf([
+      ["088903", 3],
+      ["064532", 1, null, false],
+      ["075093", 1],
+    ]));
+
+    expect(diff.added.map(l => l.lineNumber)).toEqual(["075093"]);
+    expect(diff.removed.map(l => l.lineNumber)).toEqual(["015480"]);
+    expect(diff.changed.map(c => [c.lineNumber, c.from.quantity.amount, c.to.quantity.amount, c.to.canSubstitute])).toEqual([
+      ["088903", 2, 3, true],
+      ["064532", 1, 1, false],
+    ]);
+  });
+
+  test("an empty note and no note are the same", () => {
+    expect(diffTrolley(snapshot, trolleyOf([["088903", 2, ""], ["015480", 1, "Large please"], ["064532", 1]]))).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+
+  test("restore inputs undo the diff", () => {
+    const diff = diffTrolley(snapshot, trolleyOf([["088903", 3, "Ripe"], ["075093", 1]]));
+    expect(restoreInputs(diff)).toEqual([
+      { lineNumber: "075093", quantity: { amount: 0, uom: "C62" } },
+      { lineNumber: "015480", quantity: { amount: 1, uom: "C62" }, noteToShopper: "Large please", canSubstitute: true },
+      { lineNumber: "064532", quantity: { amount: 1, uom: "C62" }, noteToShopper: "", canSubstitute: true },
+      { lineNumber: "088903", quantity: { amount: 2, uom: "C62" }, noteToShopper: "", canSubstitute: true },
+    ]);
+  });
+});
+
+describe("SnapshotStore", () => {
+  let dir: string;
+  let store: SnapshotStore;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "waitrose-snapshots-"));
+    store = new SnapshotStore(dir);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("saves, lists newest first, loads and removes", async () => {
+    const older = createSnapshot("older", trolleyOf([["088903", 1]]), new Date("2026-10-18T09:00:00Z"));
+    const newer = createSnapshot("newer", trolleyOf([["015480", 2]]), new Date("2026-10-19T09:00:00Z"));
+    await store.save(older);
+    await store.save(newer);
+
+    expect(statSync(join(dir, "newer.json")).mode & 0o777).toBe(0o600);
+    expect((await store.list()).map(s => s.name)).toEqual(["newer", "older"]);
+    expect(await store.load("older")).toEqual(older);
+
+    expect(await store.remove("older")).toBe(true);
+    expect(await store.remove("older")).toBe(false);
+    await expect(store.load("older")).rejects.toThrow("No snapshot named 'older'");
+  });
+
+  test("invalid files fail to load and are skipped when listing", async () => {
+    await store.save(createSnapshot("good", trolleyOf([["088903", 1]])));
+    writeFileSync(join(dir, "corrupt.json"), "{\"version\": 1, \"na");
+    writeFileSync(join(dir, "foreign.json"), JSON.stringify({ version: 2, items: [] }));
+
+    await expect(store.load("corrupt")).rejects.toThrow("Snapshot 'corrupt' is not a valid snapshot file");
+    await expect(store.load("foreign")).rejects.toThrow("Snapshot 'foreign' is not a valid snapshot file");
+
+    const skipped: string[] = [];
+    expect((await store.list(name => { skipped.push(name); })).map(s => s.name)).toContain("good");
+    expect(skipped.sort()).toEqual(["corrupt", "foreign"]);
+  });
+
+  test("rejects names that could escape the directory", async () => {
+    await expect(store.load("../config")).rejects.toThrow("Invalid snapshot name");
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Trolley snapshots for the Waitrose CLI
+ * Saves the trolley's lines to ~/.waitrose/snapshots/<profile>/<name>.json so
+ * it can be compared against or put back later
+ */
+
+import { readdir, readFile, rm } from "fs/promises";
+import { join } from "path";
+import type { TrolleyItemInput, TrolleyResponse, UnitOfMeasure } from "../waitrose.js";
+import { CONFIG_DIR, writePrivateFile } from "./config.js";
+
+export const SNAPSHOT_DIR = join(CONFIG_DIR, "snapshots");
+
+const SNAPSHOT_NAME = /^[\w.-]+$/;
+
+/** One trolley line as saved in a snapshot */
+export interface SnapshotLine {
+  lineNumber: string;
+  /** Product name when the snapshot was taken, for display */
+  name: string;
+  quantity: { amount: number; uom: UnitOfMeasure };
+  noteToShopper: string | null;
+  canSubstitute: boolean;
+}
+
+export interface TrolleySnapshot {
+  version: 1;
+  name: string;
+  savedAt: string;
+  orderId: string;
+  lines: SnapshotLine[];
+}
+
+/** A line whose quantity, note or substitution setting differs from the snapshot */
+export interface ChangedLine {
+  lineNumber: string;
+  name: string;
+  from: SnapshotLine;
+  to: SnapshotLine;
+}
+
+/** How the current trolley differs from a snapshot */
+export interface TrolleyDiff {
+  /** In the trolley but not the snapshot */
+  added: SnapshotLine[];
+  /** In the snapshot but not the trolley */
+  removed: SnapshotLine[];
+  changed: ChangedLine[];
+}
+
+/**
+ * The trolley's lines in snapshot form
+ */
+export function snapshotLines(response: TrolleyResponse): SnapshotLine[] {
+  return response.trolley.trolleyItems.map(item => ({
+    lineNumber: item.lineNumber,
+    name: response.products.find(p => p.lineNumber === item.lineNumber)?.name ?? item.lineNumber,
+    quantity: { amount: item.quantity.amount, uom: item.quantity.uom as UnitOfMeasure },
+    noteToShopper: item.noteToShopper || null,
+    canSubstitute: item.canSubstitute,
+  }));
+}
+
+/**
+ * Take a snapshot of a trolley
+ */
+export function createSnapshot(name: string, response: TrolleyResponse, savedAt: Date = new Date()): TrolleySnapshot {
+  return { version: 1, name, savedAt: savedAt.toISOString(), orderId: response.trolley.orderId, lines: snapshotLines(response) };
+}
+
+function sameLine(a: SnapshotLine, b: SnapshotLine): boolean {
+  return a.quantity.amount === b.quantity.amount
+    && a.quantity.uom === b.quantity.uom
+    && (a.noteToShopper ?? "") === (b.noteToShopper ?? "")
+    && a.canSubstitute === b.canSubstitute;
+}
+
+/**
+ * Compare the current trolley with a snapshot
+ */
+export function diffTrolley(snapshot: TrolleySnapshot, response: TrolleyResponse): TrolleyDiff {
+  const current = snapshotLines(response);
+  const saved = new Map(snapshot.lines.map(line => [line.lineNumber, line]));
+  const now = new Map(current.map(line => [line.lineNumber, line]));
+
+  return {
+    added: current.filter(line => !saved.has(line.lineNumber)),
+    removed: snapshot.lines.filter(line => !now.has(line.lineNumber)),
+    changed: current.flatMap(to => {
+      const from = saved.get(to.lineNumber);
+      return from && !sameLine(from, to) ? [{ lineNumber: to.lineNumber, name: to.name, from, to }] : [];
+    }),
+  };
+}
+
+/**
+ * The updateTrolleyItems input that turns the current trolley back into the snapshot:
+ * lines added since are removed, and removed or changed lines are set as they were
+ */
+export function restoreInputs(diff: TrolleyDiff): TrolleyItemInput[] {
+  const restore = (line: SnapshotLine): TrolleyItemInput => ({
+    lineNumber: line.lineNumber,
+    quantity: line.quantity,
+    // An empty note clears one added since the snapshot
+    noteToShopper: line.noteToShopper ?? "",
+    canSubstitute: line.canSubstitute,
+  });
+
+  return [
+    ...diff.added.map(line => ({ lineNumber: line.lineNumber, quantity: { amount: 0, uom: line.quantity.uom } })),
+    ...diff.removed.map(restore),
+    ...diff.changed.map(change => restore(change.from)),
+  ];
+}
+
+function isSnapshotLine(value: unknown): value is SnapshotLine {
+  const line = value as SnapshotLine | null;
+  return typeof line === "object" && line !== null
+    && typeof line.lineNumber === "string"
+    && typeof line.name === "string"
+    && typeof line.quantity?.amount === "number"
+    && typeof line.quantity.uom === "string"
+    && (line.noteToShopper === null || typeof line.noteToShopper === "string")
+    && typeof line.canSubstitute === "boolean";
+}
+
+/** Whether parsed JSON is a snapshot this version can read */
+function isSnapshot(value: unknown): value is TrolleySnapshot {
+  const snapshot = value as TrolleySnapshot | null;
+  return typeof snapshot === "object" && snapshot !== null
+    && snapshot.version === 1
+    && typeof snapshot.name === "string"
+    && typeof snapshot.savedAt === "string"
+    && typeof snapshot.orderId === "string"
+    && Array.isArray(snapshot.lines)
+    && snapshot.lines.every(isSnapshotLine);
+}
+
+/**
+ * Snapshots stored as one JSON file each, readable only by the owner
+ */
+export class SnapshotStore {
+  constructor(private readonly dir: string = join(SNAPSHOT_DIR, "default")) {}
+
+  /** The store for a profile's snapshots */
+  static forProfile(profile: string): SnapshotStore {
+    return new SnapshotStore(join(SNAPSHOT_DIR, profile));
+  }
+
+  private pathFor(name: string): string {
+    if (!SNAPSHOT_NAME.test(name)) {
+      throw new Error(`Invalid snapshot name '${name}': use letters, digits, '.', '-' and '_'`);
+    }
+    return join(this.dir, `${name}.json`);
+  }
+
+  async save(snapshot: TrolleySnapshot): Promise<void> {
+    await writePrivateFile(this.pathFor(snapshot.name), JSON.stringify(snapshot, null, 2));
+  }
+
+  async load(name: string): Promise<TrolleySnapshot> {
+    let text: string;
+    try {
+      text = await readFile(this.pathFor(name), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`No snapshot named '${name}'. Run 'waitrose trolley snapshot list' to see saved snapshots.`);
+      }
+      throw error;
+    }
+
+    let snapshot: unknown;
+    try {
+      snapshot = JSON.parse(text);
+    } catch {
+      snapshot = null;
+    }
+    if (!isSnapshot(snapshot)) throw new Error(`Snapshot '${name}' is not a valid snapshot file`);
+    return snapshot;
+  }
+
+  /**
+   * All snapshots, newest first. Files that can't be read are left out and
+   * reported to onSkip.
+   */
+  async list(onSkip?: (name: string, error: Error) => void): Promise<TrolleySnapshot[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const snapshots = await Promise.all(names.filter(n => n.endsWith(".json")).map(async n => {
+      const name = n.slice(0, -".json".length);
+      try {
+        return await this.load(name);
+      } catch (error) {
+        onSkip?.(name, error instanceof Error ? error : new Error(String(error)));
+        return null;
+      }
+    }));
+    return snapshots
+      .filter((snapshot): snapshot is TrolleySnapshot => snapshot !== null)
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  /** Delete a snapshot; returns false if it didn't exist */
+  async remove(name: string): Promise<boolean> {
+    const path = this.pathFor(name);
+    if (!(await Bun.file(path).exists())) return false;
+    await rm(path);
+    return true;
+  }
+}
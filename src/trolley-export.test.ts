@@ -0,0 +1,91 @@
+/**
+ * Trolley export tests
+ *
+ * Exports a trolley from the mock server in each format.
+ * Run with: bun test trolley-export.test.ts
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { WaitroseClient, type TrolleyResponse } from "../waitrose";
+import { formatTrolleyExport, trolleyExportRows } from "./trolley-export";
+import { startMockServer, MOCK_USERNAME, MOCK_PASSWORD, type MockServer } from "./mock-server";
+
+let server: MockServer;
+let trolley: TrolleyResponse;
+const exportedAt = new Date("2026-10-19T09:30:00Z");
+
+beforeAll(async () => {
+  server = startMockServer();
+  const client = new WaitroseClient({ transport: server.transport });
+  await client.login(MOCK_USERNAME, MOCK_PASSWORD);
+  await client.emptyTrolley();
+  trolley = await client.updateTrolleyItems([
+    { lineNumber: "064532", quantity: { amount: 2, uom: "C62" }, noteToShopper: 'Strong, "extra" mature' },
+    { lineNumber: "834209", quantity: { amount: 500, uom: "GRM" } },
+  ]);
+});
+
+afterAll(() => {
+  server.stop();
+});
+
+describe("Trolley export", () => {
+  test("rows join trolley lines with their products", () => {
+    expect(trolleyExportRows(trolley)).toEqual([
+      {
+        lineNumber: "064532",
+        name: "Cathedral City Mature Cheddar",
+        brand: "Cathedral City",
+        size: "350g",
+        quantity: { amount: 2, uom: "C62" },
+        unitPrice: { price: { amount: 4, currencyCode: "GBP" }, quantity: { amount: 1, uom: "C62" } },
+        total: { amount: 8, currencyCode: "GBP" },
+        promotions: ["Add 2 for £7"],
+        note: 'Strong, "extra" mature',
+      },
+      {
+        lineNumber: "834209",
+        name: "Waitrose Beef Steak Mince from the Counter",
+        brand: "Waitrose",
+        size: "per kg",
+        quantity: { amount: 500, uom: "GRM" },
+        unitPrice: { price: { amount: 9.5, currencyCode: "GBP" }, quantity: { amount: 1, uom: "KGM" } },
+        total: { amount: 4.75, currencyCode: "GBP" },
+        promotions: [],
+        note: null,
+      },
+    ]);
+  });
+
+  test("csv quotes fields that need it", () => {
+    expect(formatTrolleyExport(trolley, "csv", exportedAt).split("\r\n")).toEqual([
+      "Line Number,Name,Brand,Size,Quantity,Unit Price,Total,Promotions,Note",
+      '064532,Cathedral City Mature Cheddar,Cathedral City,350g,2,£4.00,£8.00,Add 2 for £7,"Strong, ""extra"" mature"',
+      "834209,Waitrose Beef Steak Mince from the Counter,Waitrose,per kg,500g,£9.50/kg,£4.75,,",
+      "",
+    ]);
+  });
+
+  test("json includes the order, rows and totals", () => {
+    const data = JSON.parse(formatTrolleyExport(trolley, "json", exportedAt));
+    expect(data.orderId).toBe(trolley.trolley.orderId);
+    expect(data.exportedAt).toBe("2026-10-19T09:30:00.000Z");
+    expect(data.items).toHaveLength(2);
+    expect(data.totals.total).toEqual(trolley.trolley.trolleyTotals.totalEstimatedCost);
+  });
+
+  test("markdown renders a table with totals", () => {
+    const md = formatTrolleyExport(trolley, "md", exportedAt);
+    expect(md).toStartWith("# Waitrose trolley, 19 October 2026\n");
+    expect(md).toContain("| 834209 | Waitrose Beef Steak Mince from the Counter | Waitrose | per kg | 500g | £9.50/kg | £4.75 |  |  |");
+    expect(md).toContain(`**Estimated total:** £${trolley.trolley.trolleyTotals.totalEstimatedCost.amount.toFixed(2)}`);
+  });
+
+  test("html is a standalone page with escaped values", () => {
+    const html = formatTrolleyExport(trolley, "html", exportedAt);
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("<title>Waitrose trolley, 19 October 2026</title>");
+    expect(html).toContain("<td>Strong, &quot;extra&quot; mature</td>");
+    expect(html).toContain("@media print");
+  });
+});
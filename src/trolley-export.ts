@@ -0,0 +1,189 @@
+/**
+ * Trolley export for the Waitrose CLI
+ * Joins trolley lines with their products and renders them as CSV, JSON,
+ * Markdown or a printable HTML page
+ */
+
+import { formatQuantity, type Price, type Quantity, type TrolleyResponse } from "../waitrose.js";
+
+export type ExportFormat = "csv" | "json" | "md" | "html";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "md", "html"];
+
+/** One trolley line joined with its product */
+export interface TrolleyExportRow {
+  lineNumber: string;
+  name: string;
+  brand: string | null;
+  size: string | null;
+  quantity: Quantity;
+  /** Price per unit of sale, e.g. £9.50 per 1 KGM */
+  unitPrice: { price: Price; quantity: Quantity } | null;
+  total: Price;
+  /** Descriptions of the product's promotions */
+  promotions: string[];
+  note: string | null;
+}
+
+const COLUMNS = ["Line Number", "Name", "Brand", "Size", "Quantity", "Unit Price", "Total", "Promotions", "Note"];
+
+/**
+ * Trolley lines joined with their products, in trolley order
+ */
+export function trolleyExportRows(response: TrolleyResponse): TrolleyExportRow[] {
+  return response.trolley.trolleyItems.map(item => {
+    const product = response.products.find(p => p.lineNumber === item.lineNumber);
+    return {
+      lineNumber: item.lineNumber,
+      name: product?.name ?? item.lineNumber,
+      brand: product?.brandName || null,
+      size: product?.size || null,
+      quantity: item.quantity,
+      unitPrice: product?.currentSaleUnitPrice ?? null,
+      total: item.totalPrice,
+      promotions: (product?.promotions ?? []).map(p => p.promotionDescription),
+      note: item.noteToShopper || null,
+    };
+  });
+}
+
+function money(price: Price | null | undefined): string {
+  if (!price) return "";
+  const amount = price.amount.toFixed(2);
+  return price.currencyCode === "GBP" ? `£${amount}` : `${amount} ${price.currencyCode}`;
+}
+
+function unitPriceText(unitPrice: TrolleyExportRow["unitPrice"]): string {
+  if (!unitPrice) return "";
+  const { price, quantity } = unitPrice;
+  if (quantity.amount !== 1) return `${money(price)}/${formatQuantity(quantity, "")}`;
+  if (quantity.uom === "KGM") return `${money(price)}/kg`;
+  if (quantity.uom === "GRM") return `${money(price)}/g`;
+  return money(price);
+}
+
+/** Display values for each column, in COLUMNS order */
+function cells(row: TrolleyExportRow): string[] {
+  return [
+    row.lineNumber,
+    row.name,
+    row.brand ?? "",
+    row.size ?? "",
+    formatQuantity(row.quantity, ""),
+    unitPriceText(row.unitPrice),
+    money(row.total),
+    row.promotions.join("; "),
+    row.note ?? "",
+  ];
+}
+
+/** Subtotal, savings and total lines shown under the Markdown and HTML tables */
+function summary(response: TrolleyResponse): Array<[string, string]> {
+  const totals = response.trolley.trolleyTotals;
+  const lines: Array<[string, string]> = [["Subtotal", money(totals.itemTotalEstimatedCost)]];
+  if (totals.savingsFromOffers?.amount) lines.push(["Offer savings", money(totals.savingsFromOffers)]);
+  if (totals.savingsFromMyWaitrose?.amount) lines.push(["myWaitrose savings", money(totals.savingsFromMyWaitrose)]);
+  if (totals.deliveryCharge) lines.push(["Delivery", money(totals.deliveryCharge)]);
+  lines.push(["Estimated total", money(totals.totalEstimatedCost)]);
+  return lines;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function exportTitle(exportedAt: Date): string {
+  return `Waitrose trolley, ${exportedAt.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" })}`;
+}
+
+/**
+ * Render a trolley in one of the export formats
+ */
+export function formatTrolleyExport(response: TrolleyResponse, format: ExportFormat, exportedAt: Date = new Date()): string {
+  const rows = trolleyExportRows(response);
+
+  switch (format) {
+    case "json": {
+      const totals = response.trolley.trolleyTotals;
+      return JSON.stringify({
+        orderId: response.trolley.orderId,
+        exportedAt: exportedAt.toISOString(),
+        items: rows,
+        totals: {
+          items: totals.itemTotalEstimatedCost,
+          savingsFromOffers: totals.savingsFromOffers,
+          savingsFromMyWaitrose: totals.savingsFromMyWaitrose,
+          deliveryCharge: totals.deliveryCharge,
+          total: totals.totalEstimatedCost,
+        },
+      }, null, 2) + "\n";
+    }
+
+    case "csv":
+      return [COLUMNS, ...rows.map(cells)].map(record => record.map(csvField).join(",")).join("\r\n") + "\r\n";
+
+    case "md": {
+      const table = [
+        `| ${COLUMNS.join(" | ")} |`,
+        `|${COLUMNS.map(() => "---").join("|")}|`,
+        ...rows.map(row => `| ${cells(row).map(markdownCell).join(" | ")} |`),
+      ];
+      const totals = summary(response).map(([label, value]) => `**${label}:** ${value}  `);
+      return [`# ${exportTitle(exportedAt)}`, "", ...table, "", ...totals].join("\n") + "\n";
+    }
+
+    case "html": {
+      const head = COLUMNS.map(column => `<th>${column}</th>`).join("");
+      const body = rows
+        .map(row => `      <tr>${cells(row).map(cell => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`)
+        .join("\n");
+      const totals = summary(response)
+        .map(([label, value]) => `      <tr><th colspan="6">${label}</th><td colspan="3">${escapeHtml(value)}</td></tr>`)
+        .join("\n");
+      const title = escapeHtml(exportTitle(exportedAt));
+
+      return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+    th, td { border-bottom: 1px solid #ccc; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+    tfoot th { text-align: right; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <table>
+    <thead>
+      <tr>${head}</tr>
+    </thead>
+    <tbody>
+${body}
+    </tbody>
+    <tfoot>
+${totals}
+    </tfoot>
+  </table>
+</body>
+</html>
+`;
+    }
+  }
+}
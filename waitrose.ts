@@ -10,10 +10,20 @@
  *   const trolley = await client.getTrolley();
  */
 
-const GRAPHQL_URL = "https://www.waitrose.com/api/graphql-prod/graph/live";
-const SEARCH_API_URL = "https://www.waitrose.com/api/content-prod/v2/cms/publish/productcontent";
-const PRODUCTS_API_URL = "https://www.waitrose.com/api/products-prod/v1/products";
+const WAITROSE_ORIGIN = "https://www.waitrose.com";
+
+/** Paths of the Waitrose APIs, relative to the origin */
+export const API_PATHS = {
+  graphql: "/api/graphql-prod/graph/live",
+  search: "/api/content-prod/v2/cms/publish/productcontent",
+  products: "/api/products-prod/v1/products",
+} as const;
+
+const GRAPHQL_URL = WAITROSE_ORIGIN + API_PATHS.graphql;
+const SEARCH_API_URL = WAITROSE_ORIGIN + API_PATHS.search;
+const PRODUCTS_API_URL = WAITROSE_ORIGIN + API_PATHS.products;
 const CLIENT_ID = "ANDROID_APP";
+const USER_AGENT = "Waitrose/3.9.1 (Android)";
 
 // ============================================================================
 // GraphQL Operations
@@ -72,11 +82,15 @@ const QUERIES = {
 // Types
 // ============================================================================
 
+/** Name of a GraphQL operation in QUERIES */
+export type OperationName = keyof typeof QUERIES;
+
 /** GraphQL error structure */
-interface GraphQLError {
+export interface GraphQLError {
   message: string;
   locations?: Array<{ line: number; column: number }>;
-  path?: string[];
+  path?: Array<string | number>;
+  extensions?: { code?: string; [key: string]: unknown };
 }
 
 /** GraphQL response with errors */
@@ -128,6 +142,17 @@ export interface Session {
   expiresIn: number;
 }
 
+/** Session state that can be persisted and restored with WaitroseClient.fromSession */
+export interface StoredSession {
+  accessToken: string;
+  refreshToken?: string;
+  customerId?: string;
+  customerOrderId?: string;
+  defaultBranchId?: string;
+  /** When the access token expires (Unix timestamp in ms) */
+  expiresAt?: number;
+}
+
 export interface ShoppingContext {
   customerId: string;
   customerOrderId: string;
@@ -144,6 +169,20 @@ export interface TrolleyProduct {
   size: string;
   thumbnail: string;
   productType: string;
+  displayPriceQualifier?: string | null;
+  /** Category path from the top level down */
+  categories?: Array<{ id: string; name: string }> | null;
+  /** Days' notice the product needs before delivery */
+  leadTime?: number | null;
+  /** Units the product can be bought in */
+  weights?: { uoms: UnitOfMeasure[] } | null;
+  defaultQuantity?: Quantity | null;
+  /** Estimated price and weight of the default quantity of a weighed product, e.g. "£4.28 - £5.23" */
+  formattedPriceRange?: string | null;
+  formattedWeightRange?: string | null;
+  /** Price per unit of sale (e.g. per item, or per kg for weighed products) */
+  currentSaleUnitPrice?: { price: Price; quantity: Quantity } | null;
+  promotions?: ProductPromotion[] | null;
 }
 
 export interface TrolleyItem {
@@ -153,6 +192,19 @@ export interface TrolleyItem {
   totalPrice: Price;
   canSubstitute: boolean;
   noteToShopper: string | null;
+  /** Ids of promotions the line qualifies for */
+  triggeredPromotions?: string[] | null;
+  /** Ids of promotions the line could qualify for with more items */
+  untriggeredPromotions?: string[] | null;
+}
+
+/** Trolley lines by conflict severity */
+export interface TrolleyItemCounts {
+  noConflicts: number;
+  /** Lines that can't be delivered as they are (e.g. out of stock) */
+  hardConflicts: number;
+  /** Lines that can be delivered with a change (e.g. a later slot) */
+  softConflicts: number;
 }
 
 export interface TrolleyTotals {
@@ -161,13 +213,45 @@ export interface TrolleyTotals {
   deliveryCharge: Price | null;
   savingsFromOffers: Price | null;
   savingsFromMyWaitrose: Price | null;
+  trolleyItemCounts?: TrolleyItemCounts | null;
+}
+
+/**
+ * Ways to resolve a conflict: REMOVE the line, SWAP it for another product or
+ * CHANGE_SLOT to one of the conflict's slotOptionDates. Other values may appear.
+ */
+export type ConflictAction = "REMOVE" | "SWAP" | "CHANGE_SLOT" | (string & {});
+
+/** A slot date on which a conflicting line could be delivered */
+export interface SlotOptionDate {
+  /** YYYY-MM-DD */
+  date: string;
+  type: string;
+}
+
+/** A trolley line that can't be delivered as it stands */
+export interface TrolleyConflict {
+  productId: string;
+  lineNumber: string;
+  /** Explanations to show the shopper */
+  messages: string[];
+  priority: number;
+  outOfStock: boolean;
+  /** e.g. "OUT_OF_STOCK" or "LEAD_TIME" */
+  type: string;
+  resolutionActions: ConflictAction[];
+  /** Actions not allowed for this line, even if listed in resolutionActions */
+  prohibitedActions: ConflictAction[];
+  /** The trolleyItemId of the line */
+  itemId: string;
+  slotOptionDates: SlotOptionDate[] | null;
 }
 
 export interface Trolley {
   orderId: string;
   trolleyItems: TrolleyItem[];
   trolleyTotals: TrolleyTotals;
-  conflicts: unknown[];
+  conflicts: TrolleyConflict[];
 }
 
 export interface TrolleyResponse {
@@ -237,10 +321,14 @@ export interface Membership {
 export interface TrolleyItemInput {
   lineNumber: string;
   quantity: { amount: number; uom: UnitOfMeasure };
+  /** An empty string clears the line's note */
   noteToShopper?: string;
   canSubstitute?: boolean;
 }
 
+/** The parts of a trolley line that can change without touching its quantity */
+export type TrolleyItemPreferences = Pick<TrolleyItemInput, "noteToShopper" | "canSubstitute">;
+
 export interface CurrentSlot {
   slotType: string | null;
   branchId: string | null;
@@ -299,6 +387,40 @@ export interface OrderDetails {
   totals: OrderTotals;
 }
 
+/** How reorder combines a past order with the current trolley */
+export type ReorderMode = "merge" | "replace";
+
+export interface ReorderOptions {
+  /** merge (default) adds the order's quantities to the trolley; replace makes the trolley match the order */
+  mode?: ReorderMode;
+  /** Trolley to update (default: the current one) */
+  orderId?: string;
+  /** Use this substitution preference for every line instead of the order's */
+  canSubstitute?: boolean;
+}
+
+/** An order line that reorder couldn't add */
+export interface ReorderSkippedLine {
+  lineNumber: string;
+  /**
+   * discontinued: no longer sold; no-quantity: the line has no quantity;
+   * unit-mismatch: listed or in the trolley both by the item and by weight;
+   * rejected: the API refused it
+   */
+  reason: "discontinued" | "no-quantity" | "unit-mismatch" | "rejected";
+  message: string;
+}
+
+export interface ReorderResult {
+  /** Lines set in the trolley, with the quantity now in it */
+  added: TrolleyItemInput[];
+  /** Line numbers taken out of the trolley (replace mode) */
+  removed: string[];
+  skipped: ReorderSkippedLine[];
+  /** Trolley after the update */
+  trolley: TrolleyResponse;
+}
+
 export interface Campaign {
   id: string;
   name: string;
@@ -449,6 +571,9 @@ export interface ProductDetail {
     price: Price;
     quantity: Quantity;
   };
+  /** Units the product can be bought in */
+  weights?: { uoms: UnitOfMeasure[] };
+  defaultQuantity?: Quantity;
 }
 
 /** Category information for browsing */
@@ -461,6 +586,1435 @@ export interface CategoryInfo {
   productCount?: number;
 }
 
+// ============================================================================
+// Errors
+// ============================================================================
+
+/** Base class for all errors thrown by the client */
+export class WaitroseError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** The API responded with a non-2xx HTTP status */
+export class HttpError extends WaitroseError {
+  readonly status: number;
+  readonly body: string;
+  readonly url: string;
+
+  constructor(status: number, body: string, url: string) {
+    super(`HTTP ${status}: ${body}`);
+    this.status = status;
+    this.body = body;
+    this.url = url;
+  }
+}
+
+/** The access token is missing, expired or was rejected */
+export class AuthExpiredError extends WaitroseError {
+  /** HTTP status when the rejection came from the transport, null for GraphQL auth errors */
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null = null, options?: ErrorOptions) {
+    super(message, options);
+    this.status = status;
+  }
+}
+
+/** The GraphQL response contained top-level errors */
+export class GraphQLRequestError extends WaitroseError {
+  readonly operation: OperationName;
+  readonly errors: GraphQLError[];
+
+  constructor(operation: OperationName, errors: GraphQLError[]) {
+    super(`GraphQL Error: ${errors.map(e => e.message).join(", ")}`);
+    this.operation = operation;
+    this.errors = errors;
+  }
+
+  /** Paths of the fields that failed, e.g. "getTrolley.products" */
+  get paths(): string[] {
+    return this.errors.filter(e => e.path?.length).map(e => e.path!.join("."));
+  }
+}
+
+/** The operation succeeded at the transport level but reported business failures */
+export class ApiFailureError extends WaitroseError {
+  readonly operation: OperationName;
+  readonly failures: ApiFailure[];
+
+  constructor(operation: OperationName, failures: ApiFailure[], summary: string = `${operation} failed`) {
+    super(`${summary}: ${failures.map(f => f.message).join(", ")}`);
+    this.operation = operation;
+    this.failures = failures;
+  }
+}
+
+/** A trolley mutation was rejected; the trolley state returned alongside is kept */
+export class TrolleyConflictError extends ApiFailureError {
+  readonly response: TrolleyResponse;
+
+  constructor(operation: OperationName, response: TrolleyResponse, summary?: string) {
+    super(operation, response.failures ?? [], summary);
+    this.response = response;
+  }
+
+  /** Conflicts reported on the trolley at the time of the failure */
+  get conflicts(): TrolleyConflict[] {
+    return this.response.trolley?.conflicts ?? [];
+  }
+}
+
+/**
+ * A trolley change took the week's spending over budget. It's normally undone;
+ * if undoing it failed, `undone` is false and the failure is the `cause`.
+ */
+export class BudgetExceededError extends WaitroseError {
+  readonly status: BudgetStatus;
+  /** The trolley after the change was undone, or with the change if undoing it failed */
+  readonly response: TrolleyResponse;
+  readonly undone: boolean;
+
+  constructor(status: BudgetStatus, response: TrolleyResponse, undone: boolean = true, options?: ErrorOptions) {
+    const over = `this week would be £${(-status.remaining).toFixed(2)} over the £${status.weeklyLimit.toFixed(2)} limit`;
+    const outcome = undone
+      ? "so the change was undone"
+      : `and undoing the change failed, so the trolley is still over budget: ${options?.cause instanceof Error ? options.cause.message : String(options?.cause)}`;
+    super(`Over budget: ${over}, ${outcome}`, options);
+    this.status = status;
+    this.response = response;
+    this.undone = undone;
+  }
+}
+
+/** The request never produced a response (DNS failure, connection reset, ...) */
+export class NetworkError extends WaitroseError {
+  readonly url: string;
+
+  constructor(url: string, cause: unknown) {
+    super(`Network error: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.url = url;
+  }
+}
+
+/** The request did not complete within its timeout */
+export class TimeoutError extends WaitroseError {
+  readonly operation: RequestOperation;
+  readonly timeoutMs: number;
+
+  constructor(operation: RequestOperation, timeoutMs: number, options?: ErrorOptions) {
+    super(`${operation} timed out after ${timeoutMs}ms`, options);
+    this.operation = operation;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** A response did not match the expected shape (strict validation only) */
+export class SchemaValidationError extends WaitroseError {
+  readonly operation: RequestOperation;
+  readonly schema: SchemaName;
+  readonly issues: SchemaIssue[];
+
+  constructor(operation: RequestOperation, schema: SchemaName, issues: SchemaIssue[]) {
+    super(`${operation} response does not match ${schema}: ${formatIssues(issues)}`);
+    this.operation = operation;
+    this.schema = schema;
+    this.issues = issues;
+  }
+}
+
+/** Whether a GraphQL error indicates a missing or expired session */
+function isAuthError(error: GraphQLError): boolean {
+  return error.extensions?.code === "UNAUTHENTICATED" || /unauthori[sz]ed/i.test(error.message);
+}
+
+// ============================================================================
+// Response Validation
+// ============================================================================
+
+/** Response types that can be checked at runtime */
+export type SchemaName = "Session" | "TrolleyResponse" | "Order" | "OrderDetails" | "SlotDay" | "SearchProduct";
+
+/** A field that does not match its declared type */
+export interface SchemaIssue {
+  /** Location of the field, e.g. "trolley.trolleyItems[0].quantity.amount" */
+  path: string;
+  expected: string;
+  /** Type found instead, or "missing" */
+  received: string;
+}
+
+/** Reported by lenient validation when a response has drifted from its type */
+export interface SchemaDriftEvent {
+  operation: RequestOperation;
+  schema: SchemaName;
+  issues: SchemaIssue[];
+}
+
+/** Runtime validation of responses against the exported types */
+export interface ValidationOptions {
+  /** "strict" throws SchemaValidationError, "lenient" reports drift and returns the response as-is */
+  mode: "strict" | "lenient";
+  /** Called for each drifted response in lenient mode (default: console.warn) */
+  onDrift?: (event: SchemaDriftEvent) => void;
+}
+
+type Check = (value: unknown, path: string, issues: SchemaIssue[]) => void;
+
+function typeOf(value: unknown): string {
+  if (value === undefined) return "missing";
+  if (value === null) return "null";
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function primitive(expected: "string" | "number" | "boolean"): Check {
+  return (value, path, issues) => {
+    if (typeof value !== expected) issues.push({ path, expected, received: typeOf(value) });
+  };
+}
+
+// Combinators mirroring the TypeScript declarations; extra fields are always allowed
+const t = {
+  string: primitive("string"),
+  number: primitive("number"),
+  boolean: primitive("boolean"),
+  unknown: (() => {}) as Check,
+  nullable: (check: Check): Check => (value, path, issues) => {
+    if (value !== null) check(value, path, issues);
+  },
+  optional: (check: Check): Check => (value, path, issues) => {
+    if (value !== undefined) check(value, path, issues);
+  },
+  array: (check: Check): Check => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: "array", received: typeOf(value) });
+      return;
+    }
+    value.forEach((item, i) => check(item, `${path}[${i}]`, issues));
+  },
+  object: (shape: Record<string, Check>): Check => (value, path, issues) => {
+    if (typeOf(value) !== "object") {
+      issues.push({ path, expected: "object", received: typeOf(value) });
+      return;
+    }
+    for (const [key, check] of Object.entries(shape)) {
+      check((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues);
+    }
+  },
+};
+
+const priceSchema = t.object({ amount: t.number, currencyCode: t.string });
+const quantitySchema = t.object({ amount: t.number, uom: t.string });
+
+const orderSlotSchema = t.object({
+  branchId: t.string,
+  branchName: t.string,
+  type: t.string,
+  startDateTime: t.string,
+  endDateTime: t.string,
+  status: t.string,
+});
+
+const SCHEMAS: Record<SchemaName, Check> = {
+  Session: t.object({
+    accessToken: t.string,
+    refreshToken: t.string,
+    customerId: t.string,
+    customerOrderId: t.string,
+    customerOrderState: t.string,
+    defaultBranchId: t.string,
+    expiresIn: t.number,
+  }),
+
+  TrolleyResponse: t.object({
+    products: t.array(t.object({
+      id: t.string,
+      lineNumber: t.string,
+      name: t.string,
+      brandName: t.string,
+      displayPrice: t.string,
+      size: t.string,
+      thumbnail: t.string,
+      productType: t.string,
+    })),
+    trolley: t.object({
+      orderId: t.string,
+      trolleyItems: t.array(t.object({
+        lineNumber: t.string,
+        trolleyItemId: t.number,
+        quantity: quantitySchema,
+        totalPrice: priceSchema,
+        canSubstitute: t.boolean,
+        noteToShopper: t.nullable(t.string),
+      })),
+      trolleyTotals: t.object({
+        totalEstimatedCost: priceSchema,
+        itemTotalEstimatedCost: priceSchema,
+        deliveryCharge: t.nullable(priceSchema),
+        savingsFromOffers: t.nullable(priceSchema),
+        savingsFromMyWaitrose: t.nullable(priceSchema),
+      }),
+      conflicts: t.array(t.object({
+        lineNumber: t.string,
+        messages: t.array(t.string),
+        outOfStock: t.boolean,
+        type: t.string,
+        resolutionActions: t.array(t.string),
+        prohibitedActions: t.array(t.string),
+        slotOptionDates: t.nullable(t.array(t.object({ date: t.string, type: t.string }))),
+      })),
+    }),
+    failures: t.nullable(t.array(t.object({ type: t.string, message: t.string }))),
+  }),
+
+  Order: t.object({
+    customerOrderId: t.string,
+    status: t.string,
+    created: t.string,
+    lastUpdated: t.string,
+    slots: t.array(orderSlotSchema),
+    totals: t.object({
+      estimated: t.object({ totalPrice: priceSchema, toPay: priceSchema }),
+      actual: t.object({ paid: t.nullable(priceSchema) }),
+    }),
+  }),
+
+  OrderDetails: t.object({
+    customerOrderId: t.string,
+    status: t.string,
+    created: t.string,
+    lastUpdated: t.string,
+    orderLines: t.array(t.object({
+      lineNumber: t.string,
+      orderLineStatus: t.string,
+      estimatedQuantity: t.nullable(quantitySchema),
+      quantity: t.nullable(quantitySchema),
+      estimatedUnitPrice: t.nullable(priceSchema),
+      estimatedTotalPrice: t.nullable(priceSchema),
+      estimatedPrice: t.nullable(priceSchema),
+      price: t.nullable(priceSchema),
+      unitPrice: t.nullable(priceSchema),
+      totalPrice: t.nullable(priceSchema),
+      substitutionAllowed: t.boolean,
+      noteToShopper: t.nullable(t.string),
+    })),
+    slots: t.array(orderSlotSchema),
+    containsEntertainingLines: t.boolean,
+    substitutionsAllowed: t.boolean,
+    bagless: t.boolean,
+    totals: t.object({
+      estimated: t.object({
+        totalPrice: t.nullable(priceSchema),
+        toPay: t.nullable(priceSchema),
+        deliveryCharge: t.nullable(priceSchema),
+        offerSavings: t.nullable(priceSchema),
+        membershipSavings: t.nullable(priceSchema),
+      }),
+      actual: t.object({
+        paid: t.nullable(priceSchema),
+        savings: t.nullable(priceSchema),
+        deliveryCharge: t.nullable(priceSchema),
+      }),
+    }),
+  }),
+
+  SlotDay: t.object({
+    id: t.string,
+    branchId: t.string,
+    slotType: t.string,
+    date: t.string,
+    slots: t.array(t.object({
+      id: t.string,
+      startDateTime: t.string,
+      endDateTime: t.string,
+      shopByDateTime: t.string,
+      status: t.string,
+      charge: priceSchema,
+      greenSlot: t.boolean,
+      deliveryPassSlot: t.boolean,
+    })),
+  }),
+
+  SearchProduct: t.object({
+    id: t.string,
+    lineNumber: t.string,
+    name: t.string,
+    brandName: t.optional(t.string),
+    displayPrice: t.string,
+    formattedPriceRange: t.optional(t.string),
+    formattedWeightRange: t.optional(t.string),
+    size: t.optional(t.string),
+    thumbnail: t.optional(t.string),
+    productType: t.optional(t.string),
+    promotions: t.optional(t.array(t.unknown)),
+    currentSaleUnitPrice: t.optional(t.object({ price: priceSchema, quantity: quantitySchema })),
+    defaultQuantity: t.optional(quantitySchema),
+  }),
+};
+
+/**
+ * Check a value against one of the response types and list every mismatch.
+ * An empty array means the value matches.
+ */
+export function validateResponse(schema: SchemaName, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  SCHEMAS[schema](value, "", issues);
+  return issues;
+}
+
+function formatIssues(issues: SchemaIssue[]): string {
+  return issues.map(i => `${i.path || "(root)"} expected ${i.expected}, got ${i.received}`).join("; ");
+}
+
+// ============================================================================
+// Client Options
+// ============================================================================
+
+/** A fetch-compatible function used to send requests */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+/** Transport used to reach the Waitrose APIs */
+export interface WaitroseTransport {
+  /** fetch implementation (defaults to the global fetch) */
+  fetch?: FetchFunction;
+  /** GraphQL endpoint URL */
+  graphqlUrl?: string;
+  /** Content/search REST API base URL */
+  searchApiUrl?: string;
+  /** Products REST API base URL */
+  productsApiUrl?: string;
+  /** Extra headers sent with every request (override the defaults) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Build a transport that sends every request to another origin using the standard paths,
+ * e.g. a reverse proxy or the local mock server
+ */
+export function transportForOrigin(origin: string, fetch?: FetchFunction): WaitroseTransport {
+  const base = origin.replace(/\/+$/, "");
+  return {
+    fetch,
+    graphqlUrl: base + API_PATHS.graphql,
+    searchApiUrl: base + API_PATHS.search,
+    productsApiUrl: base + API_PATHS.products,
+  };
+}
+
+/** REST endpoints, named like GraphQL operations for retry and logging purposes */
+export type RestOperation = "search" | "browse" | "products";
+
+/** Any operation the client can send */
+export type RequestOperation = OperationName | RestOperation;
+
+/** Details passed to RetryPolicy.onRetry before each retry */
+export interface RetryEvent {
+  operation: RequestOperation;
+  /** The attempt that just failed (1-based) */
+  attempt: number;
+  /** Delay before the next attempt */
+  delayMs: number;
+  error: unknown;
+}
+
+/** Retry behaviour for transient failures */
+export interface RetryPolicy {
+  /** Total attempts including the first (default 3, 1 disables retries) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on each attempt (default 250ms) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay (default 5000ms) */
+  maxDelayMs?: number;
+  /** HTTP statuses that are retried (default 408, 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /**
+   * Mutations that are safe to retry. Queries and REST reads are always retried;
+   * mutations such as BookSlot or CancelOrder only when listed here.
+   */
+  retryMutations?: OperationName[];
+  /** Called before each retry */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/** Client-side throttling, shared by GraphQL, search and products requests */
+export interface RateLimitOptions {
+  /** Sustained request rate (default: unlimited) */
+  requestsPerSecond?: number;
+  /** Requests that may be sent back-to-back before the rate applies (default: requestsPerSecond) */
+  burst?: number;
+  /** Maximum requests in flight at once (default: unlimited) */
+  maxConcurrent?: number;
+}
+
+/** Per-call options accepted by every client method */
+export interface RequestOptions {
+  /** Abort the call (including queued and retried attempts) */
+  signal?: AbortSignal;
+  /** Fail with TimeoutError if the call takes longer than this, retries included */
+  timeoutMs?: number;
+  /** Skip cached data and store the fresh response (cacheable operations only) */
+  bypassCache?: boolean;
+}
+
+/** Passed to RequestHooks.beforeRequest before each attempt is sent */
+export interface RequestEvent {
+  operation: RequestOperation;
+  /** GraphQL variables, REST request body, or null for GET requests */
+  variables: unknown;
+  url: string;
+  method: "GET" | "POST";
+  /** Headers about to be sent; hooks may add, change or delete entries */
+  headers: Record<string, string>;
+  /** Attempt number (1-based), greater than 1 for retries */
+  attempt: number;
+}
+
+/** Passed to RequestHooks.afterResponse once an attempt completes or fails */
+export interface ResponseEvent extends RequestEvent {
+  /** HTTP status, or null if no response was received */
+  status: number | null;
+  durationMs: number;
+  /** Parsed JSON body, or the raw text for non-2xx responses */
+  body: unknown;
+  /** The error the attempt failed with, if any */
+  error?: unknown;
+}
+
+/** Callbacks for observing and adjusting traffic, e.g. for logging or metrics */
+export interface RequestHooks {
+  beforeRequest?: (event: RequestEvent) => void | Promise<void>;
+  afterResponse?: (event: ResponseEvent) => void | Promise<void>;
+}
+
+/** Session lifetime handling */
+export interface SessionOptions {
+  /** Refresh the session this long before the access token expires (default 5 minutes, false disables) */
+  refreshBeforeExpiryMs?: number | false;
+  /** Credentials for logging in again when the refresh token is rejected */
+  credentials?: () => Promise<{ username: string; password: string } | null> | { username: string; password: string } | null;
+  /** Called after every login or refresh, e.g. to persist the new tokens */
+  onSessionChange?: (session: StoredSession) => void | Promise<void>;
+  /** Runs each automatic refresh, e.g. under a lock shared with other processes using the same session */
+  lock?: (refresh: () => Promise<void>) => Promise<void>;
+  /**
+   * The latest saved session, read inside the lock before refreshing. If
+   * another process has already renewed it, it's used instead.
+   */
+  load?: () => Promise<StoredSession | null> | StoredSession | null;
+}
+
+/** Options for constructing a WaitroseClient */
+export interface WaitroseClientOptions {
+  /** Custom transport, e.g. to route through a proxy or a local stand-in server */
+  transport?: WaitroseTransport;
+  /** Retry policy for transient failures, or false to never retry */
+  retry?: RetryPolicy | false;
+  /** Rate limit and concurrency cap, or a limiter shared with other clients */
+  rateLimit?: RateLimitOptions | RequestLimiter;
+  /** Default timeout for every call, overridable per call (default: none) */
+  timeoutMs?: number;
+  /** Check responses against their types at runtime (default: off) */
+  validate?: ValidationOptions["mode"] | ValidationOptions;
+  /** Hooks called around every request attempt */
+  hooks?: RequestHooks;
+  /** Cache slowly-changing catalogue lookups (default: off) */
+  cache?: CacheOptions;
+  /** Automatic session refresh */
+  session?: SessionOptions;
+  /** Weekly budget checked after every trolley update (default: none) */
+  budget?: BudgetOptions;
+}
+
+const DEFAULT_REFRESH_BEFORE_EXPIRY_MS = 5 * 60 * 1000;
+
+// Operations that manage the session themselves and must not trigger a refresh
+const SESSION_OPERATIONS: ReadonlySet<RequestOperation> = new Set(["NewSession", "RefreshSession", "DeleteSession"]);
+
+const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, "onRetry">> = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryMutations: [],
+};
+
+/** Whether an operation only reads data and can be repeated without side effects */
+function isReadOnly(operation: RequestOperation): boolean {
+  if (operation === "search" || operation === "browse" || operation === "products") return true;
+  return !QUERIES[operation].startsWith("mutation");
+}
+
+/** Exponential backoff with jitter: a random delay in [cap/2, cap] */
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(cap / 2 + Math.random() * cap / 2);
+}
+
+/** Wait for a delay, rejecting early with the abort reason if the signal fires */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+interface LimiterWaiter {
+  resolve: (release: () => void) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token-bucket rate limiter with a max-in-flight cap.
+ * Requests are granted in FIFO order; queued requests can be abandoned via an AbortSignal.
+ *
+ * @example
+ * ```ts
+ * const limiter = new RequestLimiter({ requestsPerSecond: 5, maxConcurrent: 2 });
+ * const a = new WaitroseClient({ rateLimit: limiter });
+ * const b = new WaitroseClient({ rateLimit: limiter }); // shares the same budget
+ * ```
+ */
+export class RequestLimiter {
+  /** Null when the rate is unlimited and only maxConcurrent applies */
+  private readonly ratePerMs: number | null;
+  private readonly capacity: number;
+  private readonly maxConcurrent: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private readonly queue: LimiterWaiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RateLimitOptions = {}) {
+    const rps = options.requestsPerSecond;
+    if (rps !== undefined && !(rps > 0)) {
+      throw new RangeError(`requestsPerSecond must be greater than 0, got ${rps}`);
+    }
+    const max = options.maxConcurrent;
+    if (max !== undefined && !(max >= 1)) {
+      throw new RangeError(`maxConcurrent must be at least 1, got ${max}`);
+    }
+    this.ratePerMs = rps === undefined || rps === Infinity ? null : rps / 1000;
+    this.capacity = this.ratePerMs === null ? Infinity : Math.max(1, options.burst ?? rps!);
+    this.maxConcurrent = max ?? Infinity;
+    this.tokens = this.capacity;
+  }
+
+  /** Number of requests waiting for a slot */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /** Wait for a slot; the returned function must be called once the request settles */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: LimiterWaiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            reject(signal.reason);
+          }
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  private refill(): void {
+    if (this.ratePerMs === null) return;
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.ratePerMs);
+    this.lastRefill = now;
+  }
+
+  /** Grant slots to queued requests while both budgets allow it */
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.inFlight < this.maxConcurrent) {
+      if (this.ratePerMs !== null && this.tokens < 1) {
+        // Wake up when the next token is due
+        if (!this.timer) {
+          const waitMs = Math.ceil((1 - this.tokens) / this.ratePerMs);
+          this.timer = setTimeout(() => {
+            this.timer = null;
+            this.drain();
+          }, waitMs);
+        }
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      }
+      this.tokens -= 1;
+      this.inFlight++;
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.inFlight--;
+        this.drain();
+      });
+    }
+  }
+}
+
+// ============================================================================
+// Caching
+// ============================================================================
+
+/** Operations whose responses may be cached; trolley, order and slot data never is */
+export type CacheableOperation = "products" | "browse" | "GetCampaigns";
+
+/** Storage backend for cached responses */
+export interface CacheStore {
+  /** The stored value, or undefined if missing or expired */
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  /** Remove every entry whose key starts with the prefix, or all entries */
+  invalidate(prefix?: string): Promise<void>;
+}
+
+/** Caching behaviour for catalogue lookups */
+export interface CacheOptions {
+  /** Where entries are kept (default: a new MemoryCache) */
+  store?: CacheStore;
+  /** Time to live per operation (defaults: products 1h, browse 15min, campaigns 1h) */
+  ttlMs?: Partial<Record<CacheableOperation, number>>;
+}
+
+const DEFAULT_CACHE_TTL_MS: Record<CacheableOperation, number> = {
+  products: 60 * 60 * 1000,
+  browse: 15 * 60 * 1000,
+  GetCampaigns: 60 * 60 * 1000,
+};
+
+/** In-process cache store */
+export class MemoryCache implements CacheStore {
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  async get(key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async invalidate(prefix: string = ""): Promise<void> {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Build a cache key: operation first so entries can be invalidated per operation,
+ * then the branch, since prices and availability differ between branches
+ */
+function cacheKey(operation: CacheableOperation, branchId: string | null | undefined, params: unknown): string {
+  return `${operation}:${branchId ?? "-"}:${JSON.stringify(params)}`;
+}
+
+// ============================================================================
+// Quantities
+// ============================================================================
+
+/** A quantity as typed by a shopper */
+export interface ParsedQuantity {
+  amount: number;
+  /** null for a bare number, e.g. "3" */
+  uom: UnitOfMeasure | null;
+}
+
+/** The parts of a product that say how it can be bought */
+export interface QuantityRules {
+  name?: string;
+  weights?: { uoms: UnitOfMeasure[] } | null;
+  defaultQuantity?: Quantity | null;
+}
+
+const QUANTITY_TEXT = /^(?:x(\d+(?:\.\d+)?)|(\d+(?:\.\d+)?)\s*(kg|g|x)?)$/i;
+
+/**
+ * Parse a quantity: "3", "x3" or "3x" (each), "500g" or "1.5kg". Returns null
+ * for anything else.
+ */
+export function parseQuantity(text: string): ParsedQuantity | null {
+  const match = QUANTITY_TEXT.exec(text.trim());
+  if (!match) return null;
+
+  const [, times, amount, unit] = match;
+  if (times) return { amount: Number(times), uom: "C62" };
+  const uom = unit?.toLowerCase() === "kg" ? "KGM" : unit?.toLowerCase() === "g" ? "GRM" : unit ? "C62" : null;
+  return { amount: Number(amount), uom };
+}
+
+/**
+ * A quantity as text: "500g", "1.5kg", or a count followed by `countSuffix`
+ * ("2x" by default)
+ */
+export function formatQuantity(quantity: { amount: number; uom: string }, countSuffix: string = "x"): string {
+  if (quantity.uom === "KGM") return `${quantity.amount}kg`;
+  if (quantity.uom === "GRM") return `${quantity.amount}g`;
+  return `${quantity.amount}${countSuffix}`;
+}
+
+/**
+ * An amount in another unit; g and kg convert between each other, counts
+ * don't convert to weights. Null when the units can't be converted.
+ */
+function convertAmount(amount: number, from: UnitOfMeasure, to: UnitOfMeasure): number | null {
+  if (from === to) return amount;
+  if (from === "KGM" && to === "GRM") return Math.round(amount * 1000 * 1000) / 1000;
+  if (from === "GRM" && to === "KGM") return amount / 1000;
+  return null;
+}
+
+/**
+ * The quantity to send for a product, checked against the units it's sold in
+ * (`weights.uoms`). Weights are converted between g and kg to suit the
+ * product; with no quantity, a product's `defaultQuantity` is used.
+ *
+ * @throws WaitroseError when the product can't be bought in that quantity
+ */
+export function resolveQuantity(parsed: ParsedQuantity | null, product: QuantityRules): { amount: number; uom: UnitOfMeasure } {
+  const uoms = product.weights?.uoms?.length
+    ? product.weights.uoms
+    : [(product.defaultQuantity?.uom ?? "C62") as UnitOfMeasure];
+  const name = product.name ?? "This product";
+  const example = product.defaultQuantity && product.defaultQuantity.uom !== "C62"
+    ? formatQuantity(product.defaultQuantity)
+    : "500g";
+
+  if (!parsed) {
+    const fallback = product.defaultQuantity ?? { amount: 1, uom: uoms[0]! };
+    return { amount: fallback.amount, uom: fallback.uom as UnitOfMeasure };
+  }
+
+  if (!(parsed.amount > 0)) {
+    throw new WaitroseError(`Quantity must be more than 0, got ${parsed.amount}`);
+  }
+
+  // A bare number means items, unless the product is only sold in one unit
+  const uom = parsed.uom ?? (uoms.includes("C62") || uoms.length > 1 ? "C62" : uoms[0]!);
+  let quantity = { amount: parsed.amount, uom };
+
+  if (!uoms.includes(uom)) {
+    if (uom === "C62") {
+      throw new WaitroseError(`${name} is sold by weight; give a weight such as ${example}`);
+    }
+    if (!uoms.includes("KGM") && !uoms.includes("GRM")) {
+      throw new WaitroseError(`${name} is sold by the item, not by weight; give a count such as 2`);
+    }
+    // Rounded to the milligram so 1.1kg is 1100g, not 1100.0000000000002g
+    quantity = uom === "KGM"
+      ? { amount: Math.round(parsed.amount * 1000 * 1000) / 1000, uom: "GRM" }
+      : { amount: parsed.amount / 1000, uom: "KGM" };
+  }
+
+  if (quantity.uom === "C62" && !Number.isInteger(quantity.amount)) {
+    throw new WaitroseError(`Quantity must be a whole number for items sold each, got ${quantity.amount}`);
+  }
+  return quantity;
+}
+
+// ============================================================================
+// Shopping Lists
+// ============================================================================
+
+/** Source format for parseShoppingList */
+export type ShoppingListFormat = "csv" | "json" | "text";
+
+/** One item of a shopping list, identified by line number or by a name to search for */
+export interface ShoppingListItem {
+  /** Row (CSV), line (text) or index (JSON) in the source, 1-based, for reporting */
+  row: number;
+  lineNumber?: string;
+  /** Free-text product name, resolved with searchProducts when there's no line number */
+  name?: string;
+  /** Defaults to 1 */
+  quantity?: number;
+  /** Defaults to "C62" (each) */
+  uom?: UnitOfMeasure;
+  noteToShopper?: string;
+  canSubstitute?: boolean;
+}
+
+/** A row that couldn't be parsed, resolved or added to the trolley */
+export interface ShoppingListIssue {
+  row: number;
+  /** Line number or name from the row, if it had one */
+  item?: string;
+  message: string;
+}
+
+export interface ShoppingListParseResult {
+  items: ShoppingListItem[];
+  /** Rows with values that couldn't be read */
+  errors: ShoppingListIssue[];
+}
+
+export interface ImportShoppingListOptions {
+  orderId?: string;
+  /** Validate the items and resolve names without changing the trolley */
+  dryRun?: boolean;
+}
+
+export interface ShoppingListImportResult {
+  /** Items set in the trolley (or that would be, with dryRun) */
+  added: Array<ShoppingListItem & { lineNumber: string; quantity: number; uom: UnitOfMeasure; productName?: string }>;
+  /** Names that didn't match any product */
+  unresolved: ShoppingListIssue[];
+  /** Items that were invalid or rejected by the API */
+  failures: ShoppingListIssue[];
+  /** Trolley after the update, or null if nothing was sent */
+  trolley: TrolleyResponse | null;
+}
+
+type ShoppingListField = "item" | "lineNumber" | "name" | "quantity" | "uom" | "noteToShopper" | "canSubstitute";
+
+// Column headers (CSV) and keys (JSON) accepted for each field, compared lowercase without spaces or punctuation
+const SHOPPING_LIST_COLUMNS: Record<string, ShoppingListField> = {
+  item: "item",
+  product: "item",
+  linenumber: "lineNumber",
+  line: "lineNumber",
+  lineno: "lineNumber",
+  name: "name",
+  description: "name",
+  quantity: "quantity",
+  qty: "quantity",
+  amount: "quantity",
+  uom: "uom",
+  unit: "uom",
+  note: "noteToShopper",
+  notes: "noteToShopper",
+  notetoshopper: "noteToShopper",
+  cansubstitute: "canSubstitute",
+  substitute: "canSubstitute",
+  substitutions: "canSubstitute",
+};
+
+// Columns of a CSV without a header row
+const POSITIONAL_COLUMNS: ShoppingListField[] = ["item", "quantity", "uom", "noteToShopper", "canSubstitute"];
+
+const UOM_ALIASES: Record<string, UnitOfMeasure> = {
+  c62: "C62",
+  each: "C62",
+  ea: "C62",
+  kgm: "KGM",
+  kg: "KGM",
+  grm: "GRM",
+  g: "GRM",
+};
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true, yes: true, y: true, "1": true,
+  false: false, no: false, n: false, "0": false,
+};
+
+function columnFor(header: string): ShoppingListField | undefined {
+  return SHOPPING_LIST_COLUMNS[header.toLowerCase().replace(/[^a-z0-9]/g, "")];
+}
+
+/**
+ * Build an item from raw field values. An `item` value is a line number if it's
+ * all digits, otherwise a product name.
+ */
+function shoppingListItem(row: number, fields: Partial<Record<ShoppingListField, unknown>>): ShoppingListItem | ShoppingListIssue {
+  const text = (value: unknown) => value === undefined || value === null ? "" : String(value).trim();
+
+  const ref = text(fields.item);
+  const lineNumber = text(fields.lineNumber) || (/^\d+$/.test(ref) ? ref : "");
+  const name = text(fields.name) || (ref && ref !== lineNumber ? ref : "");
+  const label = lineNumber || name || undefined;
+
+  const item: ShoppingListItem = { row };
+  if (lineNumber) item.lineNumber = lineNumber;
+  if (name) item.name = name;
+
+  const quantity = text(fields.quantity);
+  if (quantity) {
+    const amount = Number(quantity);
+    if (!Number.isFinite(amount)) return { row, item: label, message: `Invalid quantity "${quantity}"` };
+    item.quantity = amount;
+  }
+
+  const uom = text(fields.uom);
+  if (uom) {
+    const unit = UOM_ALIASES[uom.toLowerCase()];
+    if (!unit) return { row, item: label, message: `Unknown unit "${uom}" (use each, kg or g)` };
+    item.uom = unit;
+  }
+
+  const note = text(fields.noteToShopper);
+  if (note) item.noteToShopper = note;
+
+  if (typeof fields.canSubstitute === "boolean") {
+    item.canSubstitute = fields.canSubstitute;
+  } else {
+    const substitute = text(fields.canSubstitute);
+    if (substitute) {
+      const allowed = BOOLEAN_VALUES[substitute.toLowerCase()];
+      if (allowed === undefined) return { row, item: label, message: `Invalid canSubstitute "${substitute}" (use yes or no)` };
+      item.canSubstitute = allowed;
+    }
+  }
+
+  return item;
+}
+
+/** Split CSV text into records, handling quoted fields with commas, quotes and newlines */
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]!;
+    if (quoted) {
+      if (c !== '"') field += c;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+// Quantity tokens in the text format: "2", "2x", "x2", "500g", "1.5kg"
+const LEADING_QUANTITY = /^(\d+(?:\.\d+)?)(kg|g)?x?$/i;
+const TRAILING_QUANTITY = /^x?(\d+(?:\.\d+)?)$/i;
+
+/**
+ * Parse one line of the text format: an item with an optional quantity before
+ * it ("2 semi skimmed milk", "500g mince") or after it ("088903 2", "bananas x3")
+ */
+function parseTextLine(row: number, line: string): ShoppingListItem | ShoppingListIssue {
+  const tokens = line.split(/\s+/);
+  const last = tokens.length > 1 ? TRAILING_QUANTITY.exec(tokens[tokens.length - 1]!) : null;
+  if (last) {
+    return shoppingListItem(row, { item: tokens.slice(0, -1).join(" "), quantity: last[1] });
+  }
+
+  const first = tokens.length > 1 ? LEADING_QUANTITY.exec(tokens[0]!) : null;
+  if (first) {
+    return shoppingListItem(row, { item: tokens.slice(1).join(" "), quantity: first[1], uom: first[2] });
+  }
+
+  return shoppingListItem(row, { item: line });
+}
+
+/**
+ * Parse a shopping list.
+ *
+ * - csv: a header row naming the columns (lineNumber, name, quantity, uom, note,
+ *   canSubstitute; "item" takes either a line number or a name), or no header
+ *   and the columns item, quantity, uom, note, canSubstitute in that order
+ * - json: an array (or `{ items: [...] }`) of objects with the same keys, or of
+ *   strings in the text format
+ * - text: one item per line with an optional quantity; blank lines and lines
+ *   starting with # are skipped
+ *
+ * @example
+ * ```ts
+ * const { items, errors } = parseShoppingList("2 semi skimmed milk\n088903 3", "text");
+ * const result = await client.importShoppingList(items);
+ * ```
+ */
+export function parseShoppingList(text: string, format: ShoppingListFormat): ShoppingListParseResult {
+  const items: ShoppingListItem[] = [];
+  const errors: ShoppingListIssue[] = [];
+  const collect = (result: ShoppingListItem | ShoppingListIssue) => {
+    if ("message" in result) errors.push(result);
+    else items.push(result);
+  };
+
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new WaitroseError(`Shopping list is not valid JSON: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown })?.items;
+    if (!Array.isArray(list)) {
+      throw new WaitroseError("Shopping list JSON must be an array of items or { \"items\": [...] }");
+    }
+
+    list.forEach((entry, index) => {
+      const row = index + 1;
+      if (typeof entry === "string") {
+        collect(parseTextLine(row, entry.trim()));
+      } else if (entry && typeof entry === "object") {
+        const fields: Partial<Record<ShoppingListField, unknown>> = {};
+        for (const [key, value] of Object.entries(entry)) {
+          const field = columnFor(key);
+          if (field) fields[field] = value;
+        }
+        collect(shoppingListItem(row, fields));
+      } else {
+        errors.push({ row, message: `Expected an object or string, got ${JSON.stringify(entry)}` });
+      }
+    });
+    return { items, errors };
+  }
+
+  if (format === "csv") {
+    const records = parseCsvRecords(text);
+    const headers = records[0]?.map(columnFor) ?? [];
+    const hasHeader = headers.some(Boolean);
+    const columns = hasHeader ? headers : POSITIONAL_COLUMNS;
+
+    records.forEach((record, index) => {
+      if ((hasHeader && index === 0) || record.every(cell => !cell.trim())) return;
+      const fields: Partial<Record<ShoppingListField, unknown>> = {};
+      record.forEach((cell, column) => {
+        const field = columns[column];
+        if (field) fields[field] = cell;
+      });
+      // Spreadsheet row numbers, counting the header
+      collect(shoppingListItem(index + 1, fields));
+    });
+    return { items, errors };
+  }
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith("#")) collect(parseTextLine(index + 1, trimmed));
+  });
+  return { items, errors };
+}
+
+// ============================================================================
+// Product Resolution
+// ============================================================================
+
+/**
+ * How resolveProduct picks a product from the search results:
+ * rank scores them by past purchases, favourites and size; first takes the
+ * top search result; cheapest takes the lowest unit price
+ */
+export type ResolveStrategy = "rank" | "first" | "cheapest";
+
+/** What rankProducts knows about the shopper */
+export interface ProductRankContext {
+  /** Number of previous orders each line number was bought in */
+  purchases?: Map<string, number>;
+  /** Line numbers to prefer */
+  favourites?: Iterable<string>;
+}
+
+/** A search result with its ranking score */
+export interface ProductCandidate {
+  product: SearchProduct;
+  score: number;
+  /** The part of the score from size, favourites and purchases, without search order */
+  signals: number;
+  /** Why it scored, e.g. "favourite", "bought in 3 orders" */
+  reasons: string[];
+}
+
+export interface ResolveProductOptions {
+  /** Defaults to "rank" */
+  strategy?: ResolveStrategy;
+  /** Line numbers to prefer (rank strategy) */
+  favourites?: string[];
+  /** Previous orders to count purchases from (rank strategy, default 5; 0 skips the lookup) */
+  purchaseHistory?: number;
+  /** Search results to consider (default 10) */
+  candidates?: number;
+}
+
+export interface ProductResolution {
+  /** Matching products, best first */
+  candidates: ProductCandidate[];
+  /** The best candidate, or null when nothing matched */
+  match: SearchProduct | null;
+  /**
+   * Whether the best candidates are too close to call: signals point to more
+   * than one of them equally. Only the rank strategy is ever ambiguous.
+   */
+  ambiguous: boolean;
+}
+
+const RANK_WEIGHTS = {
+  sizeMatch: 4,
+  favourite: 3,
+  purchased: 2,
+  /** Per order after the first, up to maxRepeatPurchases */
+  repeatPurchase: 0.5,
+  maxRepeatPurchases: 4,
+};
+
+// Sizes in text, converted to millilitres, grams or a count so "2 pints" matches "1.136L"
+const SIZE_PATTERN = /(\d+(?:\.\d+)?)\s*(pints?|pt|litres?|liters?|l|cl|ml|kg|g|s|pack)\b/gi;
+
+const SIZE_UNITS: Record<string, { dimension: "volume" | "weight" | "count"; factor: number }> = {
+  pint: { dimension: "volume", factor: 568.26 },
+  pints: { dimension: "volume", factor: 568.26 },
+  pt: { dimension: "volume", factor: 568.26 },
+  litre: { dimension: "volume", factor: 1000 },
+  litres: { dimension: "volume", factor: 1000 },
+  liter: { dimension: "volume", factor: 1000 },
+  liters: { dimension: "volume", factor: 1000 },
+  l: { dimension: "volume", factor: 1000 },
+  cl: { dimension: "volume", factor: 10 },
+  ml: { dimension: "volume", factor: 1 },
+  kg: { dimension: "weight", factor: 1000 },
+  g: { dimension: "weight", factor: 1 },
+  s: { dimension: "count", factor: 1 },
+  pack: { dimension: "count", factor: 1 },
+};
+
+interface ParsedSize {
+  text: string;
+  dimension: "volume" | "weight" | "count";
+  value: number;
+}
+
+function parseSizes(text: string): ParsedSize[] {
+  return [...text.matchAll(SIZE_PATTERN)].map(([match, amount, unit]) => {
+    const { dimension, factor } = SIZE_UNITS[unit!.toLowerCase()]!;
+    return { text: match.trim(), dimension, value: Number(amount) * factor };
+  });
+}
+
+function sizesMatch(a: ParsedSize, b: ParsedSize): boolean {
+  // Pints are rounded on labels, e.g. 2 pints sold as 1.136L
+  return a.dimension === b.dimension && Math.abs(a.value - b.value) <= Math.max(a.value, b.value) * 0.03;
+}
+
+/**
+ * Score search results for a term, best first. Search order breaks ties; a
+ * size in the term ("2 pints", "500g"), favourites and past purchases add to it.
+ */
+export function rankProducts(term: string, products: SearchProduct[], context: ProductRankContext = {}): ProductCandidate[] {
+  const wanted = parseSizes(term);
+  const favourites = new Set(context.favourites ?? []);
+
+  return products
+    .map((product, index) => {
+      const reasons: string[] = [];
+      let signals = 0;
+
+      const sizes = parseSizes(`${product.size ?? ""} ${product.name}`);
+      const size = wanted.find(w => sizes.some(s => sizesMatch(w, s)));
+      if (size) {
+        signals += RANK_WEIGHTS.sizeMatch;
+        reasons.push(`size matches ${size.text}`);
+      }
+
+      if (favourites.has(product.lineNumber)) {
+        signals += RANK_WEIGHTS.favourite;
+        reasons.push("favourite");
+      }
+
+      const orders = context.purchases?.get(product.lineNumber) ?? 0;
+      if (orders > 0) {
+        signals += RANK_WEIGHTS.purchased + Math.min(orders - 1, RANK_WEIGHTS.maxRepeatPurchases) * RANK_WEIGHTS.repeatPurchase;
+        reasons.push(`bought in ${orders} order${orders === 1 ? "" : "s"}`);
+      }
+
+      // Search order adds between 0 and 1, so any signal outweighs it
+      const score = signals + (products.length - index) / products.length;
+      return { product, score, signals, reasons };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// ============================================================================
+// Budget
+// ============================================================================
+
+/** What to do when a trolley change takes the week's spending over budget */
+export type BudgetMode = "warn" | "refuse";
+
+/** A weekly spending limit */
+export interface BudgetPolicy {
+  weeklyLimit: number;
+  /** "warn" calls onExceeded; "refuse" undoes the change and throws (default "warn") */
+  mode?: BudgetMode;
+}
+
+/** Spending checked against a weekly budget */
+export interface BudgetStatus {
+  weeklyLimit: number;
+  /** First day of the week the trolley is delivered in (this week without a booked slot), YYYY-MM-DD (UK date) */
+  weekStart: string;
+  /** Pending orders delivered this week, other than the one being edited */
+  pendingOrders: Order[];
+  /** Estimated total of those orders */
+  committed: number;
+  /** Estimated total of the trolley */
+  trolley: number;
+  /** Limit less committed orders and the trolley; negative when over budget */
+  remaining: number;
+  exceeded: boolean;
+}
+
+/** Budget checks made after every trolley update */
+export interface BudgetOptions {
+  /** The budget, or a callback read before each check; null turns checks off */
+  policy: BudgetPolicy | (() => Promise<BudgetPolicy | null> | BudgetPolicy | null);
+  /** Day the week starts on, 0 for Sunday (default 1, Monday) */
+  weekStartsOn?: number;
+  /** Called when an update leaves the week over budget in "warn" mode */
+  onExceeded?: (status: BudgetStatus) => void | Promise<void>;
+}
+
+/** Options for getBudgetStatus */
+export interface BudgetStatusOptions {
+  /** Use this trolley rather than fetching it */
+  trolley?: TrolleyResponse;
+  /** Day the week starts on, 0 for Sunday (default from the client's budget options, else Monday) */
+  weekStartsOn?: number;
+  /** The date whose week is checked (default: the trolley's delivery slot, or today without one) */
+  date?: Date;
+}
+
+/** What budget checks need besides the trolley */
+interface BudgetContext {
+  pendingOrders: Order[];
+  /** Start of the booked delivery slot, if there is one */
+  slotStart: string | null;
+}
+
+/**
+ * Check the week the trolley is delivered in against a budget: its pending
+ * orders, other than one being amended in the trolley, plus the trolley
+ */
+function budgetStatus(
+  weeklyLimit: number,
+  trolley: TrolleyResponse,
+  context: BudgetContext,
+  weekStartsOn: number,
+  date?: Date
+): BudgetStatus {
+  const amending = context.pendingOrders.find(order => order.customerOrderId === trolley.trolley.orderId);
+  const delivery = context.slotStart ?? amending?.slots[0]?.startDateTime;
+  const start = startOfWeek(date ?? (delivery ? new Date(delivery) : new Date()), weekStartsOn);
+  const end = addDays(start, 7);
+
+  // Weeks run on UK dates; YYYY-MM-DD strings compare in date order
+  const pendingOrders = context.pendingOrders.filter(order => {
+    if (order === amending) return false;
+    const delivered = ukDate(new Date(order.slots[0]?.startDateTime ?? order.created));
+    return delivered >= start && delivered < end;
+  });
+
+  const pennies = (amount: number) => Math.round(amount * 100) / 100;
+  const committed = pennies(pendingOrders.reduce((sum, order) => sum + order.totals.estimated.totalPrice.amount, 0));
+  const trolleyTotal = trolley.trolley.trolleyTotals.totalEstimatedCost.amount;
+  const remaining = pennies(weeklyLimit - committed - trolleyTotal);
+
+  return {
+    weeklyLimit,
+    weekStart: start,
+    pendingOrders,
+    committed,
+    trolley: trolleyTotal,
+    remaining,
+    exceeded: remaining < 0,
+  };
+}
+
+/**
+ * The updateTrolleyItems input that puts the given lines back as they were:
+ * lines that weren't in the trolley are removed
+ */
+function undoInputs(items: TrolleyItemInput[], before: TrolleyResponse): TrolleyItemInput[] {
+  const lineNumbers = [...new Set(items.map(item => item.lineNumber))];
+  return lineNumbers.map(lineNumber => {
+    const previous = before.trolley.trolleyItems.find(item => item.lineNumber === lineNumber);
+    if (!previous) {
+      const uom = items.find(item => item.lineNumber === lineNumber)!.quantity.uom;
+      return { lineNumber, quantity: { amount: 0, uom } };
+    }
+    return {
+      lineNumber,
+      quantity: { amount: previous.quantity.amount, uom: previous.quantity.uom as UnitOfMeasure },
+      // An empty note clears one the change added
+      noteToShopper: previous.noteToShopper ?? "",
+      canSubstitute: previous.canSubstitute,
+    };
+  });
+}
+
+const UK_DATE = new Intl.DateTimeFormat("en-GB", { timeZone: "Europe/London", year: "numeric", month: "2-digit", day: "2-digit" });
+
+/** The date in the UK when an instant falls, YYYY-MM-DD, so 00:30 BST is that day rather than the day before */
+function ukDate(date: Date): string {
+  const part = (type: string) => UK_DATE.formatToParts(date).find(p => p.type === type)!.value;
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/** A YYYY-MM-DD date some days later (or earlier) */
+function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+/** The UK date, YYYY-MM-DD, of the first day of the week containing an instant */
+function startOfWeek(date: Date, weekStartsOn: number): string {
+  const day = ukDate(date);
+  return addDays(day, -((new Date(`${day}T00:00:00Z`).getUTCDay() - weekStartsOn + 7) % 7));
+}
+
 // ============================================================================
 // API Client
 // ============================================================================
@@ -471,34 +2025,249 @@ export class WaitroseClient {
   private customerId: string | null = null;
   private customerOrderId: string | null = null;
   private defaultBranchId: string | null = null;
+  private expiresAt: number | null = null;
+  private refreshing: Promise<void> | null = null;
+
+  private readonly fetchFn: FetchFunction;
+  private readonly graphqlUrl: string;
+  private readonly searchApiUrl: string;
+  private readonly productsApiUrl: string;
+  private readonly extraHeaders: Record<string, string>;
+  private readonly retryPolicy: RetryPolicy & typeof DEFAULT_RETRY_POLICY;
+  private readonly limiter: RequestLimiter | null;
+  private readonly timeoutMs: number | undefined;
+  private readonly validation: ValidationOptions | null;
+  private readonly hooks: RequestHooks;
+  private readonly cache: { store: CacheStore; ttlMs: Record<CacheableOperation, number> } | null;
+  private readonly sessionOptions: SessionOptions;
+  private readonly budget: BudgetOptions | null;
+  // Pending orders and the booked slot, fetched once and reused by budget checks until either changes
+  private budgetContext: Promise<BudgetContext> | null = null;
+
+  constructor(options: WaitroseClientOptions = {}) {
+    const transport = options.transport ?? {};
+    // Resolve the global fetch lazily so it can be swapped out after construction
+    this.fetchFn = transport.fetch ?? ((url, init) => fetch(url, init));
+    this.graphqlUrl = transport.graphqlUrl ?? GRAPHQL_URL;
+    this.searchApiUrl = transport.searchApiUrl ?? SEARCH_API_URL;
+    this.productsApiUrl = transport.productsApiUrl ?? PRODUCTS_API_URL;
+    this.extraHeaders = transport.headers ?? {};
+    this.retryPolicy = options.retry === false
+      ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+      : { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.limiter = options.rateLimit instanceof RequestLimiter
+      ? options.rateLimit
+      : options.rateLimit ? new RequestLimiter(options.rateLimit) : null;
+    this.timeoutMs = options.timeoutMs;
+    this.validation = typeof options.validate === "string" ? { mode: options.validate } : options.validate ?? null;
+    this.hooks = options.hooks ?? {};
+    this.sessionOptions = options.session ?? {};
+    this.budget = options.budget ?? null;
+    this.cache = options.cache
+      ? { store: options.cache.store ?? new MemoryCache(), ttlMs: { ...DEFAULT_CACHE_TTL_MS, ...options.cache.ttlMs } }
+      : null;
+  }
 
-  /** Execute a GraphQL query/mutation */
-  private async graphql<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+  /** Build the headers shared by every request */
+  private buildHeaders(hasBody: boolean): Record<string, string> {
     const headers: Record<string, string> = {
-      "Content-Type": "application/json",
       "Accept": "application/json",
-      "User-Agent": "Waitrose/3.9.1 (Android)",
+      "User-Agent": USER_AGENT,
     };
 
+    if (hasBody) {
+      headers["Content-Type"] = "application/json";
+    }
+
     if (this.accessToken) {
       headers["Authorization"] = `Bearer ${this.accessToken}`;
     }
 
-    const response = await fetch(GRAPHQL_URL, {
-      method: "POST",
-      headers,
-      body: JSON.stringify({ query, variables }),
-    });
+    return { ...headers, ...this.extraHeaders };
+  }
+
+  /** Send a request, applying the caller's signal and timeout */
+  private async request<T>(
+    operation: RequestOperation,
+    url: string,
+    method: "GET" | "POST",
+    body: unknown,
+    options: RequestOptions
+  ): Promise<T> {
+    if (!SESSION_OPERATIONS.has(operation) && this.sessionExpiresSoon()) {
+      // Concurrent requests share a single refresh
+      this.refreshing ??= this.refreshBeforeExpiry(options).finally(() => {
+        this.refreshing = null;
+      });
+      await this.refreshing;
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const timeout = timeoutMs !== undefined ? AbortSignal.timeout(timeoutMs) : undefined;
+    const signals = [options.signal, timeout].filter((s): s is AbortSignal => s !== undefined);
+    const signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+
+    try {
+      return await this.requestWithRetry<T>(operation, url, method, body, signal);
+    } catch (error) {
+      if (timeout?.aborted && !options.signal?.aborted) {
+        throw new TimeoutError(operation, timeoutMs!, { cause: error });
+      }
+      throw error;
+    }
+  }
+
+  /** Send a request, retrying transient failures according to the retry policy */
+  private async requestWithRetry<T>(
+    operation: RequestOperation,
+    url: string,
+    method: "GET" | "POST",
+    body: unknown,
+    signal: AbortSignal | undefined
+  ): Promise<T> {
+    const policy = this.retryPolicy;
+    const retryable = isReadOnly(operation) || policy.retryMutations.includes(operation as OperationName);
+
+    for (let attempt = 1; ; attempt++) {
+      signal?.throwIfAborted();
+      const release = await this.limiter?.acquire(signal);
+      try {
+        return await this.send<T>(operation, url, method, body, signal, attempt);
+      } catch (error) {
+        // Free the slot before backing off so other requests can proceed
+        release?.();
+        if (!retryable || attempt >= policy.maxAttempts || signal?.aborted || !this.isTransient(error)) {
+          throw error;
+        }
+        const delayMs = backoffDelay(attempt, policy.baseDelayMs, policy.maxDelayMs);
+        policy.onRetry?.({ operation, attempt, delayMs, error });
+        await sleep(delayMs, signal);
+      } finally {
+        release?.();
+      }
+    }
+  }
+
+  /** Whether a failed request is worth retrying */
+  private isTransient(error: unknown): boolean {
+    if (error instanceof NetworkError) return true;
+    if (error instanceof HttpError) return this.retryPolicy.retryOnStatus.includes(error.status);
+    return false;
+  }
+
+  /** Send a single request through the transport and return the parsed JSON body */
+  private async send<T>(
+    operation: RequestOperation,
+    url: string,
+    method: "GET" | "POST",
+    body: unknown,
+    signal: AbortSignal | undefined,
+    attempt: number
+  ): Promise<T> {
+    const event: RequestEvent = {
+      operation,
+      // GraphQL bodies carry the query text as well; hooks only need the variables
+      variables: operation in QUERIES ? (body as { variables: unknown }).variables : body ?? null,
+      url,
+      method,
+      headers: this.buildHeaders(body !== undefined),
+      attempt,
+    };
+    await this.hooks.beforeRequest?.(event);
+
+    const started = Date.now();
+    const complete = async (status: number | null, responseBody: unknown, error?: unknown) => {
+      await this.hooks.afterResponse?.({ ...event, status, durationMs: Date.now() - started, body: responseBody, error });
+    };
+
+    let response: Response;
+    try {
+      response = await this.fetchFn(url, {
+        method,
+        headers: event.headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      const failure = signal?.aborted ? signal.reason : new NetworkError(url, error);
+      await complete(null, undefined, failure);
+      throw failure;
+    }
 
     if (!response.ok) {
       const text = await response.text();
-      throw new Error(`HTTP ${response.status}: ${text}`);
+      const failure = response.status === 401
+        ? new AuthExpiredError(`HTTP ${response.status}: ${text}`, response.status)
+        : new HttpError(response.status, text, url);
+      await complete(response.status, text, failure);
+      throw failure;
+    }
+
+    const json = await response.json();
+    await complete(response.status, json);
+    return json as T;
+  }
+
+  /** Validate a response (or a list of them) when validation is enabled; throws in strict mode, reports drift in lenient mode */
+  private checkResponse<T>(operation: RequestOperation, schema: SchemaName, value: T, list = false): T {
+    if (!this.validation) return value;
+
+    const issues: SchemaIssue[] = [];
+    (list ? t.array(SCHEMAS[schema]) : SCHEMAS[schema])(value, "", issues);
+    if (issues.length === 0) return value;
+
+    if (this.validation.mode === "strict") {
+      throw new SchemaValidationError(operation, schema, issues);
+    }
+    const report = this.validation.onDrift
+      ?? (event => console.warn(`Schema drift in ${event.operation} (${event.schema}): ${formatIssues(event.issues)}`));
+    report({ operation, schema, issues });
+    return value;
+  }
+
+  /** Serve a cacheable operation from the cache, loading and storing it on a miss */
+  private async cached<T>(
+    operation: CacheableOperation,
+    branchId: string | null | undefined,
+    params: unknown,
+    options: RequestOptions,
+    load: () => Promise<T>
+  ): Promise<T> {
+    if (!this.cache) return load();
+
+    const key = cacheKey(operation, branchId, params);
+    if (!options.bypassCache) {
+      const hit = await this.cache.store.get(key);
+      if (hit !== undefined) return hit as T;
     }
 
-    const json = await response.json() as GraphQLResponse<T>;
+    const value = await load();
+    await this.cache.store.set(key, value, this.cache.ttlMs[operation]);
+    return value;
+  }
+
+  /**
+   * Drop cached responses for one operation, or everything.
+   * Has no effect when caching is off.
+   */
+  async invalidateCache(operation?: CacheableOperation): Promise<void> {
+    await this.cache?.store.invalidate(operation ? `${operation}:` : undefined);
+  }
+
+  /** Execute a GraphQL query/mutation */
+  private async graphql<T>(
+    operation: OperationName,
+    variables: Record<string, unknown> = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const query = QUERIES[operation];
+    const json = await this.request<GraphQLResponse<T>>(operation, this.graphqlUrl, "POST", { query, variables }, options);
     
     if (json.errors?.length) {
-      throw new Error(`GraphQL Error: ${json.errors.map(e => e.message).join(", ")}`);
+      if (json.errors.some(isAuthError)) {
+        throw new AuthExpiredError(`GraphQL Error: ${json.errors.map(e => e.message).join(", ")}`);
+      }
+      throw new GraphQLRequestError(operation, json.errors);
     }
 
     return json as T;
@@ -507,39 +2276,19 @@ export class WaitroseClient {
   /** Execute a REST API call to the content/search API */
   private async restApi(
     endpoint: "search" | "browse",
-    body: Record<string, unknown>
+    body: Record<string, unknown>,
+    options: RequestOptions
   ): Promise<SearchResponse> {
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      "Accept": "application/json",
-      "User-Agent": "Waitrose/3.9.1 (Android)",
-    };
-
-    if (this.accessToken) {
-      headers["Authorization"] = `Bearer ${this.accessToken}`;
-    }
-
     // Use -1 for anonymous users, customerId for logged-in users
     const customerId = this.customerId || "-1";
-    const url = `${SEARCH_API_URL}/${endpoint}/${customerId}?clientType=WEB_APP`;
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`HTTP ${response.status}: ${text}`);
-    }
+    const url = `${this.searchApiUrl}/${endpoint}/${customerId}?clientType=WEB_APP`;
 
     // The API returns products inside componentsAndProducts[].searchProduct
-    const raw = await response.json() as {
+    const raw = await this.request<{
       totalMatches: number;
       productsInResultset?: number;
       componentsAndProducts?: Array<{ searchProduct?: SearchProduct }>;
-    };
+    }>(endpoint, url, "POST", body, options);
 
     // Map the raw response to our cleaner SearchResponse type
     const products: SearchProduct[] = [];
@@ -552,7 +2301,7 @@ export class WaitroseClient {
     }
 
     return {
-      products,
+      products: this.checkResponse(endpoint, "SearchProduct", products, true),
       totalMatches: raw.totalMatches,
     };
   }
@@ -562,33 +2311,150 @@ export class WaitroseClient {
   // ==========================================================================
 
   /** Log in with username and password */
-  async login(username: string, password: string): Promise<Session> {
+  async login(username: string, password: string, options: RequestOptions = {}): Promise<Session> {
+    const result = await this.graphql<{ data: { generateSession: Session & { failures: ApiFailure[] | null } } }>(
+      "NewSession",
+      { input: { username, password, clientId: CLIENT_ID } },
+      options
+    );
+
+    const session = result.data.generateSession;
+    if (session.failures?.length) {
+      throw new ApiFailureError("NewSession", session.failures, "Login failed");
+    }
+
+    await this.applySession("NewSession", session);
+    return session;
+  }
+
+  /**
+   * Exchange the refresh token for a new session.
+   * Called automatically shortly before the access token expires.
+   */
+  async refreshSession(options: RequestOptions = {}): Promise<Session> {
+    if (!this.refreshToken) throw new AuthExpiredError("No refresh token available");
+
     const result = await this.graphql<{ data: { generateSession: Session & { failures: ApiFailure[] | null } } }>(
-      QUERIES.NewSession,
-      { input: { username, password, clientId: CLIENT_ID } }
+      "RefreshSession",
+      { input: { refreshToken: this.refreshToken, clientId: CLIENT_ID } },
+      options
     );
 
     const session = result.data.generateSession;
     if (session.failures?.length) {
-      throw new Error(`Login failed: ${session.failures.map(f => f.message).join(", ")}`);
+      throw new ApiFailureError("RefreshSession", session.failures, "Refresh failed");
     }
 
+    await this.applySession("RefreshSession", session);
+    return session;
+  }
+
+  /** Store a new session and report it to onSessionChange */
+  private async applySession(operation: OperationName, session: Session): Promise<void> {
+    this.checkResponse(operation, "Session", session);
+
     this.accessToken = session.accessToken;
     this.refreshToken = session.refreshToken;
     this.customerId = session.customerId;
     this.customerOrderId = session.customerOrderId;
     this.defaultBranchId = session.defaultBranchId;
+    this.expiresAt = Date.now() + session.expiresIn * 1000;
 
-    return session;
+    await this.sessionOptions.onSessionChange?.(this.exportSession()!);
+  }
+
+  /** Whether the access token is close enough to expiry to refresh it */
+  private sessionExpiresSoon(): boolean {
+    const margin = this.sessionOptions.refreshBeforeExpiryMs ?? DEFAULT_REFRESH_BEFORE_EXPIRY_MS;
+    if (margin === false || !this.accessToken || this.expiresAt === null) return false;
+    return Date.now() >= this.expiresAt - margin;
+  }
+
+  /**
+   * Refresh the session, logging in with the configured credentials if the
+   * refresh fails, unless a session saved by someone else is fresh enough
+   */
+  private async refreshBeforeExpiry(options: RequestOptions): Promise<void> {
+    const { lock = refresh => refresh(), load } = this.sessionOptions;
+    await lock(async () => {
+      const latest = await load?.();
+      if (latest && latest.accessToken !== this.accessToken) {
+        this.restoreSession(latest);
+        if (!this.sessionExpiresSoon()) return;
+      }
+      await this.renewSession(options);
+    });
+  }
+
+  private async renewSession(options: RequestOptions): Promise<void> {
+    if (this.refreshToken) {
+      try {
+        await this.refreshSession(options);
+        return;
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+      }
+    }
+
+    const credentials = await this.sessionOptions.credentials?.();
+    if (credentials) {
+      await this.login(credentials.username, credentials.password, options);
+    }
+    // Otherwise carry on with the current token; the API rejects it once it has expired
+  }
+
+  /**
+   * Create a client from a previously exported session, without logging in
+   *
+   * @example
+   * ```ts
+   * await Bun.write("session.json", JSON.stringify(client.exportSession()));
+   * const restored = WaitroseClient.fromSession(await Bun.file("session.json").json());
+   * ```
+   */
+  static fromSession(session: StoredSession, options: WaitroseClientOptions = {}): WaitroseClient {
+    const client = new WaitroseClient(options);
+    client.restoreSession(session);
+    return client;
+  }
+
+  /** Replace the client's session with a previously exported one */
+  restoreSession(session: StoredSession): void {
+    this.accessToken = session.accessToken;
+    this.refreshToken = session.refreshToken ?? null;
+    this.customerId = session.customerId ?? null;
+    this.customerOrderId = session.customerOrderId ?? null;
+    this.defaultBranchId = session.defaultBranchId ?? null;
+    this.expiresAt = session.expiresAt ?? null;
+  }
+
+  /** The current session for persisting, or null if not logged in */
+  exportSession(): StoredSession | null {
+    if (!this.accessToken) return null;
+
+    return {
+      accessToken: this.accessToken,
+      refreshToken: this.refreshToken ?? undefined,
+      customerId: this.customerId ?? undefined,
+      customerOrderId: this.customerOrderId ?? undefined,
+      defaultBranchId: this.defaultBranchId ?? undefined,
+      expiresAt: this.expiresAt ?? undefined,
+    };
   }
 
   /** 
-   * Re-authenticate using stored credentials.
-   * Note: The Waitrose API doesn't support token refresh via GraphQL - 
-   * re-login is required when the token expires.
+   * Re-authenticate, preferring the refresh token and logging in with the
+   * credentials only if the refresh fails
    */
-  async reAuthenticate(username: string, password: string): Promise<Session> {
-    return this.login(username, password);
+  async reAuthenticate(username: string, password: string, options: RequestOptions = {}): Promise<Session> {
+    if (this.refreshToken) {
+      try {
+        return await this.refreshSession(options);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+      }
+    }
+    return this.login(username, password, options);
   }
 
   /** Check if the client is authenticated */
@@ -597,12 +2463,14 @@ export class WaitroseClient {
   }
 
   /** Log out and delete the session */
-  async logout(): Promise<void> {
-    await this.graphql(QUERIES.DeleteSession);
+  async logout(options: RequestOptions = {}): Promise<void> {
+    await this.graphql("DeleteSession", {}, options);
     this.accessToken = null;
     this.refreshToken = null;
     this.customerId = null;
     this.customerOrderId = null;
+    this.expiresAt = null;
+    this.budgetContext = null;
   }
 
   /** Get the current order ID */
@@ -620,8 +2488,8 @@ export class WaitroseClient {
   // ==========================================================================
 
   /** Get the current shopping context */
-  async getShoppingContext(): Promise<ShoppingContext> {
-    const result = await this.graphql<{ data: { shoppingContext: ShoppingContext } }>(QUERIES.GetShoppingContext);
+  async getShoppingContext(options: RequestOptions = {}): Promise<ShoppingContext> {
+    const result = await this.graphql<{ data: { shoppingContext: ShoppingContext } }>("GetShoppingContext", {}, options);
     return result.data.shoppingContext;
   }
 
@@ -630,13 +2498,13 @@ export class WaitroseClient {
   // ==========================================================================
 
   /** Get account profile and membership info */
-  async getAccountInfo(): Promise<{ profile: AccountProfile; memberships: Membership[] | null }> {
+  async getAccountInfo(options: RequestOptions = {}): Promise<{ profile: AccountProfile; memberships: Membership[] | null }> {
     const result = await this.graphql<{ 
       data: { 
         getAccountProfile: AccountProfile; 
         getMemberships: { memberships: Membership[] } | null
       } 
-    }>(QUERIES.GetAccountInfoAndMembership);
+    }>("GetAccountInfoAndMembership", {}, options);
 
     return {
       profile: result.data.getAccountProfile,
@@ -649,52 +2517,427 @@ export class WaitroseClient {
   // ==========================================================================
 
   /** Get the current trolley contents */
-  async getTrolley(orderId?: string): Promise<TrolleyResponse> {
+  async getTrolley(orderId?: string, options: RequestOptions = {}): Promise<TrolleyResponse> {
     const id = orderId || this.customerOrderId;
-    if (!id) throw new Error("No order ID available");
+    if (!id) throw new WaitroseError("No order ID available");
 
     const result = await this.graphql<{ data: { getTrolley: TrolleyResponse } }>(
-      QUERIES.GetTrolley,
-      { orderId: id }
+      "GetTrolley",
+      { orderId: id },
+      options
     );
 
-    return result.data.getTrolley;
+    return this.checkResponse("GetTrolley", "TrolleyResponse", result.data.getTrolley);
   }
 
-  /** Add or update items in the trolley */
-  async updateTrolleyItems(items: TrolleyItemInput[], orderId?: string): Promise<TrolleyResponse> {
+  /**
+   * Add or update items in the trolley. With a budget set, the week's
+   * spending is checked afterwards: if it's over, "warn" calls onExceeded and
+   * "refuse" undoes a change that added to the trolley's total and throws
+   * BudgetExceededError.
+   */
+  async updateTrolleyItems(items: TrolleyItemInput[], orderId?: string, options: RequestOptions = {}): Promise<TrolleyResponse> {
     const id = orderId || this.customerOrderId;
-    if (!id) throw new Error("No order ID available");
+    if (!id) throw new WaitroseError("No order ID available");
 
+    const policy = await this.budgetPolicy();
+    if (!policy) return this.sendTrolleyItems(items, id, options);
+
+    // Refusing needs the lines as they were so the change can be undone
+    const before = policy.mode === "refuse" ? await this.getTrolley(id, options) : null;
+    const [response, context] = await Promise.all([
+      this.sendTrolleyItems(items, id, options),
+      this.loadBudgetContext(options),
+    ]);
+    const status = budgetStatus(policy.weeklyLimit, response, context, this.budget?.weekStartsOn ?? 1);
+    if (!status.exceeded) return response;
+
+    // Changes that trim an over-budget trolley are let through
+    if (before && status.trolley > before.trolley.trolleyTotals.totalEstimatedCost.amount) {
+      let restored: TrolleyResponse;
+      try {
+        restored = await this.sendTrolleyItems(undoInputs(items, before), id, options);
+      } catch (error) {
+        throw new BudgetExceededError(status, response, false, { cause: error });
+      }
+      throw new BudgetExceededError(status, restored);
+    }
+
+    await this.budget?.onExceeded?.(status);
+    return response;
+  }
+
+  private loadBudgetContext(options: RequestOptions): Promise<BudgetContext> {
+    this.budgetContext ??= Promise.all([this.getPendingOrders(15, options), this.getCurrentSlot(undefined, options)])
+      .then(([pendingOrders, slot]) => ({ pendingOrders, slotStart: slot?.startDateTime ?? null }))
+      .catch(error => {
+        this.budgetContext = null;
+        throw error;
+      });
+    return this.budgetContext;
+  }
+
+  private async budgetPolicy(): Promise<BudgetPolicy | null> {
+    const policy = this.budget?.policy;
+    if (!policy) return null;
+    return typeof policy === "function" ? await policy() : policy;
+  }
+
+  private async sendTrolleyItems(items: TrolleyItemInput[], orderId: string, options: RequestOptions): Promise<TrolleyResponse> {
     const result = await this.graphql<{ data: { updateTrolleyItems: TrolleyResponse } }>(
-      QUERIES.UpdateTrolleyItems,
-      { trolleyItemsInput: items, orderId: id }
+      "UpdateTrolleyItems",
+      { trolleyItemsInput: items, orderId },
+      options
     );
 
-    return result.data.updateTrolleyItems;
+    const response = result.data.updateTrolleyItems;
+    if (response.failures?.length) {
+      throw new TrolleyConflictError("UpdateTrolleyItems", response, "Update trolley failed");
+    }
+
+    return this.checkResponse("UpdateTrolleyItems", "TrolleyResponse", response);
   }
 
   /** Add an item to the trolley by line number */
-  async addToTrolley(lineNumber: string, quantity: number = 1, uom: UnitOfMeasure = "C62"): Promise<TrolleyResponse> {
-    return this.updateTrolleyItems([{ lineNumber, quantity: { amount: quantity, uom } }]);
+  async addToTrolley(
+    lineNumber: string,
+    quantity: number = 1,
+    uom: UnitOfMeasure = "C62",
+    options: RequestOptions = {}
+  ): Promise<TrolleyResponse> {
+    return this.updateTrolleyItems([{ lineNumber, quantity: { amount: quantity, uom } }], undefined, options);
   }
 
   /** Remove an item from the trolley */
-  async removeFromTrolley(lineNumber: string): Promise<TrolleyResponse> {
-    return this.updateTrolleyItems([{ lineNumber, quantity: { amount: 0, uom: "C62" } }]);
+  async removeFromTrolley(lineNumber: string, options: RequestOptions = {}): Promise<TrolleyResponse> {
+    return this.updateTrolleyItems([{ lineNumber, quantity: { amount: 0, uom: "C62" } }], undefined, options);
+  }
+
+  /**
+   * Change trolley lines' notes or substitution preferences, keeping their
+   * quantities. Pass null to change every line.
+   *
+   * @example
+   * ```ts
+   * await client.setItemPreferences(["088903"], { noteToShopper: "Green ones please" });
+   * await client.setItemPreferences(null, { canSubstitute: false });
+   * ```
+   */
+  async setItemPreferences(
+    lineNumbers: string[] | null,
+    preferences: TrolleyItemPreferences,
+    orderId?: string,
+    options: RequestOptions = {}
+  ): Promise<TrolleyResponse> {
+    const current = await this.getTrolley(orderId, options);
+    const items = current.trolley.trolleyItems;
+
+    const missing = lineNumbers?.find(lineNumber => !items.some(item => item.lineNumber === lineNumber));
+    if (missing) throw new WaitroseError(`Line ${missing} is not in the trolley`);
+
+    const inputs = items
+      .filter(item => !lineNumbers || lineNumbers.includes(item.lineNumber))
+      .map(item => ({
+        lineNumber: item.lineNumber,
+        quantity: { amount: item.quantity.amount, uom: item.quantity.uom as UnitOfMeasure },
+        ...preferences,
+      }));
+    if (inputs.length === 0) return current;
+
+    return this.updateTrolleyItems(inputs, orderId, options);
+  }
+
+  /**
+   * Replace a trolley line with another product, keeping its quantity, note
+   * and substitution preference. Both changes go in one update.
+   */
+  async swapTrolleyItem(
+    item: TrolleyItem,
+    lineNumber: string,
+    orderId?: string,
+    options: RequestOptions = {}
+  ): Promise<TrolleyResponse> {
+    const replacement: TrolleyItemInput = {
+      lineNumber,
+      quantity: { amount: item.quantity.amount, uom: item.quantity.uom as UnitOfMeasure },
+      canSubstitute: item.canSubstitute,
+    };
+    if (item.noteToShopper) replacement.noteToShopper = item.noteToShopper;
+
+    return this.updateTrolleyItems([
+      { lineNumber: item.lineNumber, quantity: { amount: 0, uom: item.quantity.uom as UnitOfMeasure } },
+      replacement,
+    ], orderId, options);
+  }
+
+  /**
+   * Products to offer in place of a trolley product, e.g. one that's out of
+   * stock: a search for its most specific category, or its name if it has none
+   */
+  async findAlternatives(
+    product: Pick<TrolleyProduct, "lineNumber" | "name" | "categories">,
+    limit: number = 5,
+    options: RequestOptions = {}
+  ): Promise<SearchProduct[]> {
+    const term = product.categories?.at(-1)?.name ?? product.name;
+    const results = await this.searchProducts(term, { size: limit + 1 }, options);
+    return results.products.filter(p => p.lineNumber !== product.lineNumber).slice(0, limit);
+  }
+
+  /**
+   * Send trolley updates as one batch. The API's failures aren't tied to
+   * items, so if the batch is rejected each item is sent on its own to find
+   * the ones at fault. Returns the final trolley and each rejected item's
+   * failure messages.
+   */
+  private async updateTrolleyLines(
+    inputs: TrolleyItemInput[],
+    orderId: string | undefined,
+    options: RequestOptions
+  ): Promise<{ trolley: TrolleyResponse; rejected: Map<TrolleyItemInput, string> }> {
+    const rejected = new Map<TrolleyItemInput, string>();
+    try {
+      return { trolley: await this.updateTrolleyItems(inputs, orderId, options), rejected };
+    } catch (error) {
+      if (!(error instanceof TrolleyConflictError)) throw error;
+
+      let trolley = error.response;
+      for (const input of inputs) {
+        try {
+          trolley = await this.updateTrolleyItems([input], orderId, options);
+        } catch (itemError) {
+          if (!(itemError instanceof TrolleyConflictError)) throw itemError;
+          trolley = itemError.response;
+          rejected.set(input, itemError.failures.map(f => f.message).join("; "));
+        }
+      }
+      return { trolley, rejected };
+    }
+  }
+
+  /**
+   * Set the quantities of a shopping list's items in the trolley in one batch.
+   * Items given by name are resolved to the top search result first. Invalid
+   * items, unmatched names and items the API rejects are reported per row
+   * rather than failing the whole import.
+   *
+   * @example
+   * ```ts
+   * const { items } = parseShoppingList(await Bun.file("shop.csv").text(), "csv");
+   * const { added, unresolved, failures } = await client.importShoppingList(items);
+   * ```
+   */
+  async importShoppingList(
+    items: ShoppingListItem[],
+    options: ImportShoppingListOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ShoppingListImportResult> {
+    const result: ShoppingListImportResult = { added: [], unresolved: [], failures: [], trolley: null };
+    // Rows for the same product are combined into one trolley line, in the unit of its first row
+    const lines = new Map<string, { input: TrolleyItemInput; rows: ShoppingListImportResult["added"] }>();
+
+    for (const item of items) {
+      const label = item.lineNumber ?? item.name;
+      const quantity = item.quantity ?? 1;
+      const uom = item.uom ?? "C62";
+
+      if (!label) {
+        result.failures.push({ row: item.row, item: label, message: "No line number or product name" });
+        continue;
+      }
+      const problem = !(quantity > 0) ? `Quantity must be positive, got ${quantity}`
+        : uom === "C62" && !Number.isInteger(quantity) ? `Quantity must be a whole number for items sold each, got ${quantity}`
+        : null;
+      if (problem) {
+        result.failures.push({ row: item.row, item: label, message: problem });
+        continue;
+      }
+
+      let lineNumber = item.lineNumber;
+      let productName: string | undefined;
+      if (!lineNumber) {
+        const [match] = (await this.searchProducts(label, { size: 1 }, requestOptions)).products;
+        if (!match) {
+          result.unresolved.push({ row: item.row, item: item.name, message: "No matching product" });
+          continue;
+        }
+        lineNumber = match.lineNumber;
+        productName = match.name;
+      }
+
+      const line = lines.get(lineNumber) ?? { input: { lineNumber, quantity: { amount: 0, uom } }, rows: [] };
+      const amount = convertAmount(quantity, uom, line.input.quantity.uom);
+      if (amount === null) {
+        const listed = line.input.quantity.uom === "C62" ? "by the item" : "by weight";
+        result.unresolved.push({ row: item.row, item: label, message: `Already listed ${listed} on an earlier row` });
+        continue;
+      }
+      // Rounded so 0.1kg + 0.2kg is 0.3kg, not 0.30000000000000004kg
+      line.input.quantity.amount = Math.round((line.input.quantity.amount + amount) * 1e6) / 1e6;
+      if (item.noteToShopper !== undefined) line.input.noteToShopper = item.noteToShopper;
+      if (item.canSubstitute !== undefined) line.input.canSubstitute = item.canSubstitute;
+      line.rows.push({ ...item, lineNumber, quantity, uom, productName });
+      lines.set(lineNumber, line);
+    }
+
+    const pending = [...lines.values()];
+    if (pending.length === 0 || options.dryRun) {
+      result.added = pending.flatMap(line => line.rows);
+      return result;
+    }
+
+    const { trolley, rejected } = await this.updateTrolleyLines(pending.map(line => line.input), options.orderId, requestOptions);
+    result.trolley = trolley;
+
+    const accepted = pending.filter(line => {
+      const message = rejected.get(line.input);
+      if (message === undefined) return true;
+      result.failures.push(...line.rows.map(row => ({ row: row.row, item: row.name ?? row.lineNumber, message })));
+      return false;
+    });
+
+    const products = trolley.products ?? [];
+    result.added = accepted.flatMap(line => line.rows).map(row => ({
+      ...row,
+      productName: row.productName ?? products.find(p => p.lineNumber === row.lineNumber)?.name,
+    }));
+    return result;
+  }
+
+  /**
+   * Put a past order's lines into the trolley, with the quantities, units,
+   * notes and substitution preferences they were ordered with. Lines no
+   * longer sold, or rejected by the API, are skipped and reported.
+   *
+   * @example
+   * ```ts
+   * const { added, skipped } = await client.reorder("1000000001");
+   * await client.reorder("1000000001", { mode: "replace" });
+   * ```
+   */
+  async reorder(
+    customerOrderId: string,
+    options: ReorderOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ReorderResult> {
+    const mode = options.mode ?? "merge";
+    const [order, current] = await Promise.all([
+      this.getOrder(customerOrderId, requestOptions),
+      this.getTrolley(options.orderId, requestOptions),
+    ]);
+    if (!order) throw new WaitroseError(`Order ${customerOrderId} not found`);
+
+    const result: ReorderResult = { added: [], removed: [], skipped: [], trolley: current };
+
+    const by = (uom: string) => uom === "C62" ? "by the item" : "by weight";
+    // Rounded so 0.1kg + 0.2kg is 0.3kg, not 0.30000000000000004kg
+    const add = (a: number, b: number) => Math.round((a + b) * 1e6) / 1e6;
+
+    // What was ordered, rather than what was picked (weighed lines vary).
+    // A product on several lines is added up, so it's set once in the batch.
+    const lines = new Map<string, { line: OrderLine; quantity: { amount: number; uom: UnitOfMeasure } }>();
+    for (const line of order.orderLines) {
+      const quantity = line.estimatedQuantity ?? line.quantity;
+      if (!quantity || !(quantity.amount > 0)) {
+        result.skipped.push({ lineNumber: line.lineNumber, reason: "no-quantity", message: "No quantity on the order line" });
+        continue;
+      }
+
+      const uom = quantity.uom as UnitOfMeasure;
+      const first = lines.get(line.lineNumber);
+      if (!first) {
+        lines.set(line.lineNumber, { line, quantity: { amount: quantity.amount, uom } });
+        continue;
+      }
+      const amount = convertAmount(quantity.amount, uom, first.quantity.uom);
+      if (amount === null) {
+        result.skipped.push({ lineNumber: line.lineNumber, reason: "unit-mismatch", message: `Also ordered ${by(first.quantity.uom)}` });
+        continue;
+      }
+      first.quantity.amount = add(first.quantity.amount, amount);
+    }
+
+    const sold = new Set(
+      (await this.getProductsByLineNumbers([...lines.keys()], requestOptions)).map(p => p.lineNumber)
+    );
+    const inTrolley = new Map(current.trolley.trolleyItems.map(item => [item.lineNumber, item]));
+
+    const inputs: TrolleyItemInput[] = [];
+    for (const { line, quantity } of lines.values()) {
+      if (!sold.has(line.lineNumber)) {
+        result.skipped.push({ lineNumber: line.lineNumber, reason: "discontinued", message: "No longer sold" });
+        continue;
+      }
+
+      // Merging keeps the trolley line's unit; a count and a weight can't be added up
+      let merged = quantity;
+      const existing = mode === "merge" ? inTrolley.get(line.lineNumber) : undefined;
+      if (existing) {
+        const uom = existing.quantity.uom as UnitOfMeasure;
+        const amount = convertAmount(quantity.amount, quantity.uom, uom);
+        if (amount === null) {
+          result.skipped.push({
+            lineNumber: line.lineNumber,
+            reason: "unit-mismatch",
+            message: `In the trolley ${by(uom)} but ordered ${by(quantity.uom)}`,
+          });
+          continue;
+        }
+        merged = { amount: add(existing.quantity.amount, amount), uom };
+      }
+
+      const input: TrolleyItemInput = {
+        lineNumber: line.lineNumber,
+        quantity: merged,
+        canSubstitute: options.canSubstitute ?? line.substitutionAllowed,
+      };
+      if (line.noteToShopper) input.noteToShopper = line.noteToShopper;
+      inputs.push(input);
+    }
+
+    if (mode === "replace") {
+      const ordered = new Set(inputs.map(input => input.lineNumber));
+      for (const item of current.trolley.trolleyItems) {
+        if (!ordered.has(item.lineNumber)) {
+          inputs.push({ lineNumber: item.lineNumber, quantity: { amount: 0, uom: item.quantity.uom as UnitOfMeasure } });
+        }
+      }
+    }
+
+    if (inputs.length === 0) return result;
+
+    const { trolley, rejected } = await this.updateTrolleyLines(inputs, options.orderId, requestOptions);
+    result.trolley = trolley;
+    for (const input of inputs) {
+      const message = rejected.get(input);
+      if (message !== undefined) {
+        result.skipped.push({ lineNumber: input.lineNumber, reason: "rejected", message });
+      } else if (input.quantity.amount > 0) {
+        result.added.push(input);
+      } else {
+        result.removed.push(input.lineNumber);
+      }
+    }
+    return result;
   }
 
   /** Empty the entire trolley */
-  async emptyTrolley(orderId?: string): Promise<TrolleyResponse> {
+  async emptyTrolley(orderId?: string, options: RequestOptions = {}): Promise<TrolleyResponse> {
     const id = orderId || this.customerOrderId;
-    if (!id) throw new Error("No order ID available");
+    if (!id) throw new WaitroseError("No order ID available");
 
     const result = await this.graphql<{ data: { emptyTrolley: TrolleyResponse } }>(
-      QUERIES.EmptyTrolley,
-      { orderId: id }
+      "EmptyTrolley",
+      { orderId: id },
+      options
     );
 
-    return result.data.emptyTrolley;
+    const response = result.data.emptyTrolley;
+    if (response.failures?.length) {
+      throw new TrolleyConflictError("EmptyTrolley", response, "Empty trolley failed");
+    }
+
+    return this.checkResponse("EmptyTrolley", "TrolleyResponse", response);
   }
 
   // ==========================================================================
@@ -705,10 +2948,10 @@ export class WaitroseClient {
    * Get all orders (pending and previous)
    * @param limit Max number of orders per category (API max is 15)
    */
-  async getOrders(limit: number = 10): Promise<{ pending: Order[]; previous: Order[] }> {
+  async getOrders(limit: number = 10, options: RequestOptions = {}): Promise<{ pending: Order[]; previous: Order[] }> {
     const [pending, previous] = await Promise.all([
-      this.getPendingOrders(limit),
-      this.getPreviousOrders(limit),
+      this.getPendingOrders(limit, options),
+      this.getPreviousOrders(limit, options),
     ]);
 
     return { pending, previous };
@@ -718,86 +2961,140 @@ export class WaitroseClient {
    * Get pending orders only
    * @param limit Max number of orders to return (API max is 15)
    */
-  async getPendingOrders(limit: number = 10): Promise<Order[]> {
+  async getPendingOrders(limit: number = 10, options: RequestOptions = {}): Promise<Order[]> {
     // API has a max page size of 15
     const effectiveLimit = Math.min(limit, 15);
     
     const result = await this.graphql<{ data: { pendingOrders: { content: Order[] } } }>(
-      QUERIES.GetPendingOrders,
+      "GetPendingOrders",
       { 
         getPendingOrdersInput: { 
           size: effectiveLimit, 
           sortBy: "+",  // ASCENDING
           statuses: ["PAYMENT_FAILED", "PLACED", "FULFIL", "PAID", "PICKED"]
         } 
-      }
+      },
+      options
     );
-    return result.data.pendingOrders?.content || [];
+    return this.checkResponse("GetPendingOrders", "Order", result.data.pendingOrders?.content || [], true);
+  }
+
+  /**
+   * Check a week's spending against a budget: pending orders delivered in the
+   * same week as the trolley's booked slot (or this week without one), other
+   * than one being amended in the trolley, plus the trolley
+   *
+   * @example
+   * ```ts
+   * const status = await client.getBudgetStatus(120);
+   * console.log(`£${status.remaining.toFixed(2)} left this week`);
+   * ```
+   */
+  async getBudgetStatus(
+    weeklyLimit: number,
+    statusOptions: BudgetStatusOptions = {},
+    options: RequestOptions = {}
+  ): Promise<BudgetStatus> {
+    // Always fresh; later budget checks reuse what's fetched here
+    this.budgetContext = null;
+    const [trolley, context] = await Promise.all([
+      statusOptions.trolley ?? this.getTrolley(undefined, options),
+      this.loadBudgetContext(options),
+    ]);
+    const weekStartsOn = statusOptions.weekStartsOn ?? this.budget?.weekStartsOn ?? 1;
+    return budgetStatus(weeklyLimit, trolley, context, weekStartsOn, statusOptions.date);
   }
 
   /** 
    * Get previous/completed orders
    * @param limit Max number of orders to return (API max is 15)
    */
-  async getPreviousOrders(limit: number = 10): Promise<Order[]> {
+  async getPreviousOrders(limit: number = 10, options: RequestOptions = {}): Promise<Order[]> {
     // API has a max page size of 15
     const effectiveLimit = Math.min(limit, 15);
     
     const result = await this.graphql<{ data: { previousOrders: { content: Order[] } } }>(
-      QUERIES.GetPreviousOrders,
+      "GetPreviousOrders",
       { 
         getPreviousOrdersInput: { 
           size: effectiveLimit, 
           sortBy: "-",  // DESCENDING
           statuses: ["COMPLETED", "CANCELLED", "REFUND_PENDING"]
         } 
-      }
+      },
+      options
     );
-    return result.data.previousOrders?.content || [];
+    return this.checkResponse("GetPreviousOrders", "Order", result.data.previousOrders?.content || [], true);
+  }
+
+  /**
+   * How many of the most recent previous orders each line number was bought in
+   * @param orders Previous orders to look at (API max is 15)
+   */
+  async getPurchaseCounts(orders: number = 5, options: RequestOptions = {}): Promise<Map<string, number>> {
+    const previous = (await this.getPreviousOrders(orders, options)).filter(order => order.status !== "CANCELLED");
+    const details = await Promise.all(previous.map(order => this.getOrder(order.customerOrderId, options)));
+
+    const counts = new Map<string, number>();
+    for (const order of details) {
+      if (!order) continue;
+      for (const lineNumber of new Set(order.orderLines.map(line => line.lineNumber))) {
+        counts.set(lineNumber, (counts.get(lineNumber) ?? 0) + 1);
+      }
+    }
+    return counts;
   }
 
-  /** Get details for a specific order */
-  async getOrder(customerOrderId: string): Promise<OrderDetails> {
-    const result = await this.graphql<{ data: { getOrder: OrderDetails } }>(
-      QUERIES.GetOrder,
-      { customerOrderId }
+  /** Get details for a specific order, or null if there is no such order */
+  async getOrder(customerOrderId: string, options: RequestOptions = {}): Promise<OrderDetails | null> {
+    const result = await this.graphql<{ data: { getOrder: OrderDetails | null } }>(
+      "GetOrder",
+      { customerOrderId },
+      options
     );
-    return result.data.getOrder;
+    const order = result.data.getOrder;
+    return order && this.checkResponse("GetOrder", "OrderDetails", order);
   }
 
   /** Cancel an order */
-  async cancelOrder(customerOrderId: string): Promise<void> {
+  async cancelOrder(customerOrderId: string, options: RequestOptions = {}): Promise<void> {
     const result = await this.graphql<{ data: { cancelOrder: { failures: ApiFailure[] | null } } }>(
-      QUERIES.CancelOrder,
-      { input: customerOrderId }
+      "CancelOrder",
+      { input: customerOrderId },
+      options
     );
+    this.budgetContext = null;
 
     if (result.data.cancelOrder.failures?.length) {
-      throw new Error(`Cancel failed: ${result.data.cancelOrder.failures.map(f => f.message).join(", ")}`);
+      throw new ApiFailureError("CancelOrder", result.data.cancelOrder.failures, "Cancel failed");
     }
   }
 
   /** Start amending an existing order */
-  async initiateAmendOrder(customerOrderId: string): Promise<void> {
+  async initiateAmendOrder(customerOrderId: string, options: RequestOptions = {}): Promise<void> {
     const result = await this.graphql<{ data: { amendOrder: { failures: ApiFailure[] | null } } }>(
-      QUERIES.InitiateAmendOrder,
-      { input: customerOrderId }
+      "InitiateAmendOrder",
+      { input: customerOrderId },
+      options
     );
+    this.budgetContext = null;
 
     if (result.data.amendOrder.failures?.length) {
-      throw new Error(`Amend failed: ${result.data.amendOrder.failures.map(f => f.message).join(", ")}`);
+      throw new ApiFailureError("InitiateAmendOrder", result.data.amendOrder.failures, "Amend failed");
     }
   }
 
   /** Cancel amending an order */
-  async cancelAmendOrder(customerOrderId: string): Promise<void> {
+  async cancelAmendOrder(customerOrderId: string, options: RequestOptions = {}): Promise<void> {
     const result = await this.graphql<{ data: { cancelAmendOrder: { failures: ApiFailure[] | null } } }>(
-      QUERIES.CancelAmendOrder,
-      { input: customerOrderId }
+      "CancelAmendOrder",
+      { input: customerOrderId },
+      options
     );
+    this.budgetContext = null;
 
     if (result.data.cancelAmendOrder.failures?.length) {
-      throw new Error(`Cancel amend failed: ${result.data.cancelAmendOrder.failures.map(f => f.message).join(", ")}`);
+      throw new ApiFailureError("CancelAmendOrder", result.data.cancelAmendOrder.failures, "Cancel amend failed");
     }
   }
 
@@ -806,16 +3103,22 @@ export class WaitroseClient {
   // ==========================================================================
 
   /** Get the currently booked slot */
-  async getCurrentSlot(postcode?: string): Promise<CurrentSlot | null> {
+  async getCurrentSlot(postcode?: string, options: RequestOptions = {}): Promise<CurrentSlot | null> {
     const result = await this.graphql<{ data: { currentSlot: CurrentSlot | null } }>(
-      QUERIES.CurrentSlot,
-      { input: { postcode, customerOrderId: this.customerOrderId } }
+      "CurrentSlot",
+      { input: { postcode, customerOrderId: this.customerOrderId } },
+      options
     );
     return result.data.currentSlot;
   }
 
   /** Get available slot dates */
-  async getSlotDates(slotType: SlotType, branchId?: string, addressId?: string): Promise<SlotDate[]> {
+  async getSlotDates(
+    slotType: SlotType,
+    branchId?: string,
+    addressId?: string,
+    options: RequestOptions = {}
+  ): Promise<SlotDate[]> {
     const result = await this.graphql<{ 
       data: { 
         slotDates: { 
@@ -823,24 +3126,30 @@ export class WaitroseClient {
           failures: ApiFailure[] | null;
         } 
       } 
-    }>(QUERIES.SlotDates, {
+    }>("SlotDates", {
       slotDatesInput: {
         slotType,
         branchId: branchId || this.defaultBranchId,
         customerOrderId: this.customerOrderId,
         addressId,
       },
-    });
+    }, options);
 
     if (result.data.slotDates.failures?.length) {
-      throw new Error(`Get slots failed: ${result.data.slotDates.failures.map(f => f.message).join(", ")}`);
+      throw new ApiFailureError("SlotDates", result.data.slotDates.failures, "Get slots failed");
     }
 
     return result.data.slotDates.content;
   }
 
   /** Get available slots for specific days */
-  async getSlotDays(slotType: SlotType, fromDate: string, branchId?: string, addressId?: string): Promise<SlotDay[]> {
+  async getSlotDays(
+    slotType: SlotType,
+    fromDate: string,
+    branchId?: string,
+    addressId?: string,
+    options: RequestOptions = {}
+  ): Promise<SlotDay[]> {
     const result = await this.graphql<{ 
       data: { 
         slotDays: { 
@@ -848,7 +3157,7 @@ export class WaitroseClient {
           failures: ApiFailure[] | null;
         } 
       } 
-    }>(QUERIES.SlotDays, {
+    }>("SlotDays", {
       slotDaysInput: {
         slotType,
         branchId: branchId || this.defaultBranchId,
@@ -856,31 +3165,37 @@ export class WaitroseClient {
         addressId,
         fromDate,
       },
-    });
+    }, options);
 
     if (result.data.slotDays.failures?.length) {
-      throw new Error(`Get slot days failed: ${result.data.slotDays.failures.map(f => f.message).join(", ")}`);
+      throw new ApiFailureError("SlotDays", result.data.slotDays.failures, "Get slot days failed");
     }
 
-    return result.data.slotDays.content;
+    return this.checkResponse("SlotDays", "SlotDay", result.data.slotDays.content, true);
   }
 
   /** Book a delivery/collection slot */
-  async bookSlot(slotId: string, slotType: SlotType, addressId?: string): Promise<BookSlotResult> {
+  async bookSlot(
+    slotId: string,
+    slotType: SlotType,
+    addressId?: string,
+    options: RequestOptions = {}
+  ): Promise<BookSlotResult> {
     const result = await this.graphql<{ 
       data: { 
         bookSlot: BookSlotResult & { failures: ApiFailure[] | null };
       } 
-    }>(QUERIES.BookSlot, {
+    }>("BookSlot", {
       input: {
         slotId,
         slotType,
         addressId,
       },
-    });
+    }, options);
+    this.budgetContext = null;
 
     if (result.data.bookSlot.failures?.length) {
-      throw new Error(`Book slot failed: ${result.data.bookSlot.failures.map(f => f.message).join(", ")}`);
+      throw new ApiFailureError("BookSlot", result.data.bookSlot.failures, "Book slot failed");
     }
 
     return result.data.bookSlot;
@@ -891,11 +3206,15 @@ export class WaitroseClient {
   // ==========================================================================
 
   /** Get active campaigns */
-  async getCampaigns(): Promise<Campaign[]> {
-    const result = await this.graphql<{ data: { campaigns: Campaign[] } }>(
-      QUERIES.GetCampaigns
-    );
-    return result.data.campaigns;
+  async getCampaigns(options: RequestOptions = {}): Promise<Campaign[]> {
+    return this.cached("GetCampaigns", this.defaultBranchId, {}, options, async () => {
+      const result = await this.graphql<{ data: { campaigns: Campaign[] } }>(
+        "GetCampaigns",
+        {},
+        options
+      );
+      return result.data.campaigns;
+    });
   }
 
   // ==========================================================================
@@ -919,7 +3238,8 @@ export class WaitroseClient {
    */
   async searchProducts(
     searchTerm: string,
-    options: Omit<SearchQueryParams, "searchTerm" | "category"> = {}
+    options: Omit<SearchQueryParams, "searchTerm" | "category"> = {},
+    requestOptions: RequestOptions = {}
   ): Promise<SearchResponse> {
     const queryParams: SearchQueryParams = {
       searchTerm,
@@ -935,7 +3255,49 @@ export class WaitroseClient {
 
     return this.restApi("search", {
       customerSearchRequest: { queryParams },
-    });
+    }, requestOptions);
+  }
+
+  /**
+   * Find the product a free-text term most likely means, e.g. "semi skimmed
+   * milk 2 pints". With the default rank strategy, candidates are scored by
+   * size match, favourites and past purchases, and `ambiguous` is set when
+   * the top two are too close to call.
+   *
+   * @example
+   * ```ts
+   * const { match, ambiguous, candidates } = await client.resolveProduct("semi skimmed milk");
+   * const cheapest = await client.resolveProduct("bananas", { strategy: "cheapest" });
+   * ```
+   */
+  async resolveProduct(
+    term: string,
+    options: ResolveProductOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ProductResolution> {
+    const strategy = options.strategy ?? "rank";
+    const historyOrders = options.purchaseHistory ?? 5;
+
+    const [search, purchases] = await Promise.all([
+      this.searchProducts(term, { size: options.candidates ?? 10 }, requestOptions),
+      strategy === "rank" && historyOrders > 0 ? this.getPurchaseCounts(historyOrders, requestOptions) : undefined,
+    ]);
+
+    let candidates = rankProducts(term, search.products, { purchases, favourites: options.favourites });
+    let ambiguous = false;
+
+    if (strategy === "first") {
+      candidates = search.products.map(product => candidates.find(c => c.product === product)!);
+    } else if (strategy === "cheapest") {
+      const price = (c: ProductCandidate) => c.product.currentSaleUnitPrice?.price.amount ?? Infinity;
+      candidates = [...candidates].sort((a, b) => price(a) - price(b));
+    } else {
+      // Without any signal the search's own order decides; a tie between signals needs a choice
+      const [best, next] = candidates;
+      ambiguous = !!best && !!next && best.signals > 0 && best.signals === next.signals;
+    }
+
+    return { candidates, match: candidates[0]?.product ?? null, ambiguous };
   }
 
   /**
@@ -954,7 +3316,8 @@ export class WaitroseClient {
    */
   async browseProducts(
     category: string,
-    options: Omit<SearchQueryParams, "searchTerm" | "category"> = {}
+    options: Omit<SearchQueryParams, "searchTerm" | "category"> = {},
+    requestOptions: RequestOptions = {}
   ): Promise<SearchResponse> {
     const queryParams: SearchQueryParams = {
       category,
@@ -968,9 +3331,11 @@ export class WaitroseClient {
       queryParams.branchId = this.defaultBranchId;
     }
 
-    return this.restApi("browse", {
-      customerSearchRequest: { queryParams },
-    });
+    return this.cached("browse", queryParams.branchId, queryParams, requestOptions, () =>
+      this.restApi("browse", {
+        customerSearchRequest: { queryParams },
+      }, requestOptions)
+    );
   }
 
   /**
@@ -982,14 +3347,14 @@ export class WaitroseClient {
    * console.log(products[0].name); // "Waitrose Organic Milk 2 Pints"
    * ```
    */
-  async getProductsByLineNumbers(lineNumbers: string[]): Promise<ProductDetail[]> {
+  async getProductsByLineNumbers(lineNumbers: string[], options: RequestOptions = {}): Promise<ProductDetail[]> {
     if (lineNumbers.length === 0) {
       return [];
     }
 
     // Join line numbers with + as per the API format
     const lineNumbersParam = lineNumbers.join("+");
-    const url = `${PRODUCTS_API_URL}/${lineNumbersParam}`;
+    const url = `${this.productsApiUrl}/${lineNumbersParam}`;
 
     const params: Record<string, string> = {
       view: "EXTENDED",
@@ -1002,29 +3367,10 @@ export class WaitroseClient {
     }
 
     const queryString = new URLSearchParams(params).toString();
-    const fullUrl = `${url}?${queryString}`;
-
-    const headers: Record<string, string> = {
-      "Accept": "application/json",
-      "User-Agent": "Waitrose/3.9.1 (Android)",
-    };
-
-    if (this.accessToken) {
-      headers["Authorization"] = `Bearer ${this.accessToken}`;
-    }
-
-    const response = await fetch(fullUrl, {
-      method: "GET",
-      headers,
+    return this.cached("products", params.branchId, lineNumbers, options, async () => {
+      const result = await this.request<{ products?: ProductDetail[] }>("products", `${url}?${queryString}`, "GET", undefined, options);
+      return result.products || [];
     });
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`HTTP ${response.status}: ${text}`);
-    }
-
-    const result = await response.json() as { products?: ProductDetail[] };
-    return result.products || [];
   }
 
   /**
@@ -1037,7 +3383,8 @@ export class WaitroseClient {
    */
   async getPromotionProducts(
     promotionId: string,
-    options: Omit<SearchQueryParams, "searchTerm" | "category" | "promotionId"> = {}
+    options: Omit<SearchQueryParams, "searchTerm" | "category" | "promotionId"> = {},
+    requestOptions: RequestOptions = {}
   ): Promise<SearchResponse> {
     const queryParams: SearchQueryParams = {
       promotionId,
@@ -1052,7 +3399,7 @@ export class WaitroseClient {
 
     return this.restApi("search", {
       customerSearchRequest: { queryParams },
-    });
+    }, requestOptions);
   }
 
   /**
@@ -1076,9 +3423,10 @@ export class WaitroseClient {
       sortBy?: SearchSortBy;
       start?: number;
       size?: number;
-    }
+    },
+    requestOptions: RequestOptions = {}
   ): Promise<SearchResponse> {
-    return this.searchProducts(searchTerm, filters);
+    return this.searchProducts(searchTerm, filters, requestOptions);
   }
 
   /**
@@ -1094,13 +3442,14 @@ export class WaitroseClient {
     searchTerm: string,
     page: number,
     pageSize: number = 24,
-    options: Omit<SearchQueryParams, "searchTerm" | "category" | "start" | "size"> = {}
+    options: Omit<SearchQueryParams, "searchTerm" | "category" | "start" | "size"> = {},
+    requestOptions: RequestOptions = {}
   ): Promise<SearchResponse> {
     return this.searchProducts(searchTerm, {
       ...options,
       start: (page - 1) * pageSize,
       size: pageSize,
-    });
+    }, requestOptions);
   }
 }
 